@@ -12,6 +12,9 @@
  */
 
 import crypto from 'crypto';
+import { createLogger } from './logger';
+
+const log = createLogger('crypto');
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 12;
@@ -89,7 +92,7 @@ export function decrypt(value: string | null | undefined): string | null {
     ]);
     return plaintext.toString('utf8');
   } catch (err) {
-    console.error('Failed to decrypt value:', err);
+    log.error({ err }, 'Failed to decrypt value');
     return null;
   }
 }
@@ -0,0 +1,59 @@
+/**
+ * Resolves how long an email job should wait in the EmailQueue before it
+ * is sent. The delay gives admins a review window to edit the report.
+ *
+ * Priority, highest first:
+ *   1. `deliverAt` on the request — absolute ISO timestamp
+ *   2. `delayMs` on the request — relative delay (0 sends immediately)
+ *   3. `PlatformEmailSetting.deliveryDelayMs` for the report's platform
+ *   4. `EMAIL_DELIVERY_DELAY_MS` global default (48 hours)
+ */
+
+import { env } from './env';
+import { db as prismaDb } from './db';
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export interface DeliveryDelayOverrides {
+  deliverAt?: string;
+  delayMs?: number;
+}
+
+/** JSON-schema properties shared by the job endpoints that accept overrides. */
+export const deliveryDelayProperties = {
+  deliverAt: { type: 'string', format: 'date-time' },
+  delayMs: { type: 'integer', minimum: 0 },
+} as const;
+
+export async function resolveEmailDelay(
+  platformId: string | null | undefined,
+  overrides: DeliveryDelayOverrides = {}
+): Promise<number> {
+  if (overrides.deliverAt) {
+    const deliverAt = new Date(overrides.deliverAt).getTime();
+    if (Number.isNaN(deliverAt)) {
+      throw new Error(`Invalid deliverAt: ${overrides.deliverAt}`);
+    }
+    // A time in the past means "send now"
+    return Math.max(0, deliverAt - Date.now());
+  }
+
+  if (overrides.delayMs !== undefined) {
+    return Math.max(0, overrides.delayMs);
+  }
+
+  if (platformId) {
+    const setting = (await db.platformEmailSetting.findUnique({
+      where: { platformId },
+      select: { deliveryDelayMs: true },
+    })) as { deliveryDelayMs: number | null } | null;
+
+    if (typeof setting?.deliveryDelayMs === 'number') {
+      return setting.deliveryDelayMs;
+    }
+  }
+
+  return env.EMAIL_DELIVERY_DELAY_MS;
+}
@@ -0,0 +1,67 @@
+/**
+ * Per-platform branding for transactional email.
+ *
+ * White-labelled platforms configure their sender, logo and colours on
+ * `PlatformEmailSetting`; anything left unset (or mail with no platform,
+ * such as DocuSign confirmations) falls back to the One2b defaults.
+ */
+
+import { db as prismaDb } from '../db';
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export interface EmailBranding {
+  /** Sender, optionally with a display name: `"Acme <hi@acme.com>"` */
+  fromAddress: string;
+  brandName: string;
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+  headerColor: string;
+  supportEmail: string;
+  legalName: string;
+}
+
+export const defaultBranding: EmailBranding = {
+  fromAddress: 'jps@12butterflies.life',
+  brandName: 'One2b',
+  logoUrl: 'https://one2b.io/images/branding/one2b-transparent.png',
+  primaryColor: '#1E4364',
+  accentColor: '#6E7F9B',
+  headerColor: '#d4e4f6',
+  supportEmail: 'hello@one2b.io',
+  legalName: 'One2b Pte Ltd',
+};
+
+type BrandingSetting = { [K in keyof EmailBranding]: string | null };
+
+export async function resolveBranding(
+  platformId: string | null | undefined
+): Promise<EmailBranding> {
+  if (!platformId) return defaultBranding;
+
+  const setting = (await db.platformEmailSetting.findUnique({
+    where: { platformId },
+    select: {
+      fromAddress: true,
+      brandName: true,
+      logoUrl: true,
+      primaryColor: true,
+      accentColor: true,
+      headerColor: true,
+      supportEmail: true,
+      legalName: true,
+    },
+  })) as BrandingSetting | null;
+
+  if (!setting) return defaultBranding;
+
+  const branding = { ...defaultBranding };
+  for (const key of Object.keys(branding) as Array<keyof EmailBranding>) {
+    const value = setting[key];
+    if (value) branding[key] = value;
+  }
+  return branding;
+}
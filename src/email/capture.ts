@@ -0,0 +1,94 @@
+/**
+ * Capture transports: accept messages without sending them.
+ *
+ * `file` writes each message to EMAIL_CAPTURE_DIR as `<id>.json` (with
+ * the HTML body next to it as `<id>.html` and attachments decoded to
+ * `<id>-<filename>`) so they can be opened locally. `memory` keeps them
+ * in the process for tests to assert on.
+ *
+ * Captured messages never produce Postmark webhook events, so report
+ * emails stay in SENT.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { EmailMessage, EmailTransport, SentEmail } from './transport';
+import { createLogger } from '../logger';
+
+const log = createLogger('email');
+
+export interface CapturedEmail extends EmailMessage {
+  messageId: string;
+  capturedAt: Date;
+}
+
+const captureId = () => `capture-${randomUUID()}`;
+
+export class MemoryCaptureTransport implements EmailTransport {
+  readonly name = 'memory';
+  readonly messages: CapturedEmail[] = [];
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const messageId = captureId();
+    this.messages.push({ ...message, messageId, capturedAt: new Date() });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+
+  isPermanentError(): boolean {
+    return false;
+  }
+}
+
+export class FileCaptureTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const messageId = captureId();
+    await mkdir(this.directory, { recursive: true });
+
+    const { attachments = [], ...rest } = message;
+    const record = {
+      ...rest,
+      messageId,
+      capturedAt: new Date().toISOString(),
+      attachments: attachments.map(({ filename, contentType }) => ({
+        filename,
+        contentType,
+      })),
+    };
+
+    await writeFile(
+      path.join(this.directory, `${messageId}.json`),
+      JSON.stringify(record, null, 2)
+    );
+    await writeFile(
+      path.join(this.directory, `${messageId}.html`),
+      message.htmlBody
+    );
+    for (const attachment of attachments) {
+      await writeFile(
+        path.join(
+          this.directory,
+          `${messageId}-${path.basename(attachment.filename)}`
+        ),
+        Buffer.from(attachment.content, 'base64')
+      );
+    }
+
+    log.info(
+      `Captured email "${message.subject}" to ${message.to} → ${this.directory}/${messageId}.json`
+    );
+    return { messageId };
+  }
+
+  isPermanentError(): boolean {
+    return false;
+  }
+}
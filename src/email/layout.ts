@@ -0,0 +1,161 @@
+/**
+ * Shared responsive layout for transactional email, plus the plain-text
+ * rendering derived from the same content so the two never drift apart.
+ *
+ * Templates only provide the body; the layout adds the branded header
+ * (logo, title), the small-print notices and the copyright line.
+ */
+
+import type { EmailBranding } from './branding';
+
+export interface LayoutContent {
+  title: string;
+  subtitle?: string;
+  /** Body HTML. Variables interpolated into it must be escaped. */
+  bodyHtml: string;
+  /** Small-print paragraphs shown under the card, as plain text. */
+  notices?: string[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+
+/** A call-to-action link styled as a button; falls back to `label: href` in text. */
+export function button(href: string, label: string, color: string): string {
+  const link = escapeHtml(href);
+  const text = escapeHtml(label);
+  const style = `background-color: ${color}; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block;`;
+  return `<p style="margin: 24px 0;"><a href="${link}" style="${style}">${text}</a></p>`;
+}
+
+const copyright = (branding: EmailBranding) =>
+  `© ${new Date().getFullYear()} ${branding.legalName}. All rights reserved.`;
+
+export function renderLayout(
+  branding: EmailBranding,
+  content: LayoutContent
+): string {
+  const title = escapeHtml(content.title);
+  const brandName = escapeHtml(branding.brandName);
+  const logoUrl = escapeHtml(branding.logoUrl);
+  const { headerColor, primaryColor, accentColor } = branding;
+  const subtitleText = escapeHtml(content.subtitle ?? '');
+  const subtitle = subtitleText
+    ? `<p style="margin: 12px 0 0 0; color: #64748B; font-size: 16px;">${subtitleText}</p>`
+    : '';
+  const notices = [...(content.notices ?? []), copyright(branding)]
+    .map((notice) => `<p>${escapeHtml(notice)}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+      body {
+        font-family: 'Avenir Next', 'Avenir', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+        font-size: 11pt;
+        line-height: 1.6;
+        color: #1E293B;
+        margin: 0;
+        padding: 0;
+        background-color: #f5f7fa;
+      }
+      .container { max-width: 600px; margin: 0 auto; padding: 32px 16px; }
+      .email-card { background: #ffffff; overflow: hidden; }
+      .header { background: ${headerColor}; padding: 36px 40px 28px 40px; text-align: center; }
+      .header img { height: 44px; width: auto; }
+      .content { padding: 40px 40px 32px 40px; }
+      .content p, .content li { color: #1E293B; }
+      .content p { margin: 0 0 16px 0; }
+      .content a { color: ${accentColor}; }
+      .notices { padding: 24px 40px; font-size: 8pt; line-height: 1.5; color: #94A3B8; }
+      .notices p { margin: 0 0 12px 0; color: #94A3B8; }
+      .notices p:last-child { margin-bottom: 0; }
+      @media only screen and (max-width: 480px) {
+        .container { padding: 0; }
+        .header, .content, .notices { padding-left: 20px; padding-right: 20px; }
+      }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="email-card">
+        <div class="header">
+          <img src="${logoUrl}" alt="${brandName}" />
+          <h1 style="margin: 16px 0 0 0; color: ${primaryColor}; font-size: 24px; font-weight: 600;">${title}</h1>
+          ${subtitle}
+        </div>
+        <div class="content">
+          ${content.bodyHtml}
+        </div>
+        <div class="notices">
+          ${notices}
+        </div>
+      </div>
+    </div>
+  </body>
+</html>`;
+}
+
+const TEXT_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+  '&ldquo;': '"',
+  '&rdquo;': '"',
+  '&copy;': '©',
+};
+
+/** Convert template body HTML to readable plain text. */
+export function htmlToText(html: string): string {
+  return html
+    .replace(
+      /<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+      (_, href, label) =>
+        href.startsWith('mailto:') || href === label
+          ? label
+          : `${label}: ${href}`
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|h[1-6]|ul|ol|div)>/gi, '\n\n')
+    .replace(/<\/li>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[a-z]+;|&#\d+;/gi, (entity) => TEXT_ENTITIES[entity] ?? entity)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/^ +| +$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function renderLayoutText(
+  branding: EmailBranding,
+  content: LayoutContent
+): string {
+  return [
+    content.title,
+    content.subtitle,
+    '',
+    htmlToText(content.bodyHtml),
+    '',
+    '---',
+    ...(content.notices ?? []).map((notice) => `${notice}\n`),
+    copyright(branding),
+  ]
+    .filter((line) => line !== undefined)
+    .join('\n');
+}
@@ -0,0 +1,54 @@
+import { Errors, ServerClient } from 'postmark';
+import { env } from '../env';
+import type { EmailMessage, EmailTransport, SentEmail } from './transport';
+
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+export class PostmarkTransport implements EmailTransport {
+  readonly name = 'postmark';
+  private client: ServerClient;
+
+  constructor() {
+    if (!env.AUTH_POSTMARK_KEY) {
+      throw new Error(
+        'AUTH_POSTMARK_KEY is required when EMAIL_TRANSPORT=postmark'
+      );
+    }
+    this.client = new ServerClient(env.AUTH_POSTMARK_KEY);
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const result = await this.client.sendEmail({
+      From: message.from,
+      To: message.to,
+      Subject: message.subject,
+      HtmlBody: message.htmlBody,
+      TextBody: message.textBody,
+      MessageStream: 'outbound',
+      Attachments: message.attachments?.map((attachment) => ({
+        Name: attachment.filename,
+        Content: attachment.content,
+        ContentType: attachment.contentType,
+        ContentID: attachment.contentId ?? null,
+      })),
+    });
+    return { messageId: result.MessageID };
+  }
+
+  // Postmark rejects requests it will never accept with 4xx codes: 422 with
+  // an ErrorCode for the reason (invalid address, inactive recipient, …),
+  // 401 for a bad server token. Retrying those can never succeed. Rate
+  // limiting (429) and request timeouts (408) are temporary.
+  isPermanentError(error: unknown): boolean {
+    if (error instanceof Errors.RateLimitExceededError) return false;
+    if (error instanceof Errors.ApiInputError) return true;
+
+    const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+    return (
+      typeof statusCode === 'number' &&
+      statusCode >= 400 &&
+      statusCode < 500 &&
+      !RETRYABLE_STATUSES.has(statusCode)
+    );
+  }
+}
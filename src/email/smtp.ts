@@ -0,0 +1,52 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { env } from '../env';
+import type { EmailMessage, EmailTransport, SentEmail } from './transport';
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT=smtp');
+    }
+    this.transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      auth: env.SMTP_USER
+        ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SentEmail> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.htmlBody,
+      text: message.textBody,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        encoding: 'base64',
+        contentType: attachment.contentType,
+        cid: attachment.contentId,
+      })),
+    });
+    return { messageId: info.messageId };
+  }
+
+  // 5xx SMTP replies (unknown mailbox, relay denied, …) are permanent;
+  // 4xx replies and connection errors are worth retrying.
+  isPermanentError(error: unknown): boolean {
+    const responseCode = (error as { responseCode?: number } | null)
+      ?.responseCode;
+    return (
+      typeof responseCode === 'number' &&
+      responseCode >= 500 &&
+      responseCode < 600
+    );
+  }
+}
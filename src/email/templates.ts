@@ -0,0 +1,154 @@
+/**
+ * Named transactional email templates.
+ *
+ * Each template renders a subject and body from its variables and the
+ * sending platform's branding; `renderEmail()` wraps the body in the
+ * shared layout and derives the plain-text part. Callers pass the result
+ * straight to the email transport or into an EmailQueue job.
+ */
+
+import { resolveBranding, type EmailBranding } from './branding';
+import {
+  button,
+  escapeHtml,
+  renderLayout,
+  renderLayoutText,
+  type LayoutContent,
+} from './layout';
+
+/** Variables each template is rendered with. */
+export interface EmailTemplateVariables {
+  ADVISOR_AGREEMENT_SIGNED: { firstName: string };
+  COMMUNITY_NDA_SIGNED: { firstName: string; whatsappLink: string };
+  NDA_SIGNED: { firstName: string };
+  PDV_REPORT_READY: { reportTitle: string; orgName: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+export interface EmailTemplate<TVars> {
+  subject: (vars: TVars, branding: EmailBranding) => string;
+  content: (vars: TVars, branding: EmailBranding) => LayoutContent;
+}
+
+export interface RenderedEmail {
+  from: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+}
+
+const signOff = ({ brandName }: EmailBranding) =>
+  `<p>Best regards,<br><strong>The ${escapeHtml(brandName)} Team</strong></p>`;
+
+export const emailTemplates: {
+  [K in EmailTemplateName]: EmailTemplate<EmailTemplateVariables[K]>;
+} = {
+  ADVISOR_AGREEMENT_SIGNED: {
+    subject: (_, { brandName }) =>
+      `Advisor Agreement Signed - Welcome to ${brandName}!`,
+    content: ({ firstName }, branding) => ({
+      title: `Welcome to ${branding.brandName}, ${firstName}!`,
+      bodyHtml: `
+        <p>Thank you for signing the Advisor Collaboration Agreement. We're excited to have you as part of our advisor network.</p>
+        <p>As an advisor, you'll gain access to:</p>
+        <ul>
+          <li>Exclusive networking opportunities</li>
+          <li>Strategic conversations with industry leaders</li>
+          <li>Collaborative opportunities across our community</li>
+        </ul>
+        <p>Our team will be in touch soon with next steps and onboarding information.</p>
+        ${signOff(branding)}
+      `,
+    }),
+  },
+  COMMUNITY_NDA_SIGNED: {
+    subject: (_, { brandName }) =>
+      `NDA Signed - Your ${brandName} Community Access`,
+    content: ({ firstName, whatsappLink }, branding) => ({
+      title: `Welcome to the Community, ${firstName}!`,
+      bodyHtml: `
+        <p>Thank you for signing the NDA. You now have access to our exclusive community WhatsApp group.</p>
+        ${button(whatsappLink, 'Join WhatsApp Group', '#25D366')}
+        <p><strong>Community Guidelines:</strong></p>
+        <ul>
+          <li>Be respectful and professional</li>
+          <li>Keep discussions confidential as per the NDA</li>
+          <li>Share valuable insights and support fellow members</li>
+        </ul>
+        <p>We're excited to have you as part of our community!</p>
+        ${signOff(branding)}
+      `,
+    }),
+  },
+  NDA_SIGNED: {
+    subject: (_, { brandName }) => `NDA Signed - Next Steps with ${brandName}`,
+    content: ({ firstName }, branding) => ({
+      title: `Thank You, ${firstName}!`,
+      bodyHtml: `
+        <p>We've received your signed NDA. Thank you for taking this important step.</p>
+        <p><strong>What's Next:</strong></p>
+        <ul>
+          <li>Our team will review your submission</li>
+          <li>We'll be in touch within 24-48 hours</li>
+          <li>You'll receive next steps tailored to your needs</li>
+        </ul>
+        <p>In the meantime, feel free to reach out if you have any questions.</p>
+        ${signOff(branding)}
+      `,
+    }),
+  },
+  PDV_REPORT_READY: {
+    subject: ({ reportTitle }) => `Your ${reportTitle} is Ready`,
+    content: ({ reportTitle, orgName }, branding) => {
+      const title = escapeHtml(reportTitle);
+      const org = escapeHtml(orgName);
+      const brand = escapeHtml(branding.brandName);
+      const support = escapeHtml(branding.supportEmail);
+      return {
+        title: `Your ${reportTitle} is Ready`,
+        subtitle: orgName,
+        bodyHtml: `
+          <p>Hello,</p>
+          <p>Your <strong>${title}</strong> for ${org} has been generated and is attached to this email.</p>
+          <p>The report contains a comprehensive assessment of your data assets including:</p>
+          <ul>
+            <li>Preliminary Data Valuation (PDV) calculations</li>
+            <li>Summary of your questionnaire responses</li>
+            <li>Competitive analysis and market positioning</li>
+            <li>Strategic recommendations</li>
+          </ul>
+          <p>If you have any questions about your report, please contact your ${brand} advisor directly or email us at <a href="mailto:${support}">${support}</a>.</p>
+          ${signOff(branding)}
+        `,
+        notices: [
+          'CONFIDENTIALITY NOTICE: This email and any attachments are confidential and intended solely for the named recipient(s). If received in error, please notify the sender and delete it immediately. Any unauthorized use, disclosure, copying, or distribution is prohibited.',
+          `DISCLAIMER: Any data valuations, projections, or forward-looking statements referenced herein are indicative only and do not constitute financial, accounting, legal, or investment advice. Valuations are provided "as is" and may change based on data quality, methodology updates, regulatory considerations, or market conditions. ${branding.brandName} accepts no liability for actions taken in reliance on this information. Personal data is processed in accordance with applicable data protection and privacy laws.`,
+        ],
+      };
+    },
+  },
+};
+
+/**
+ * Render a named template with the branding of `platformId` (or the
+ * One2b defaults when there is no platform).
+ */
+export async function renderEmail<K extends EmailTemplateName>(
+  name: K,
+  vars: EmailTemplateVariables[K],
+  platformId: string | null | undefined
+): Promise<RenderedEmail> {
+  const template = emailTemplates[name] as EmailTemplate<
+    EmailTemplateVariables[K]
+  >;
+  const branding = await resolveBranding(platformId);
+  const content = template.content(vars, branding);
+
+  return {
+    from: branding.fromAddress,
+    subject: template.subject(vars, branding),
+    htmlBody: renderLayout(branding, content),
+    textBody: renderLayoutText(branding, content),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Outbound email transport.
+ *
+ * Everything that sends mail (the EmailQueue worker, DocuSign handlers)
+ * goes through `getEmailTransport()` rather than a provider client, so
+ * the backend is picked by EMAIL_TRANSPORT:
+ *
+ *   postmark  → Postmark API (production; MessageIDs feed /postmark-webhook)
+ *   smtp      → any SMTP server (SMTP_HOST, SMTP_PORT, …)
+ *   file      → writes each message to EMAIL_CAPTURE_DIR instead of sending
+ *   memory    → keeps messages in process, for tests
+ */
+
+import { env } from '../env';
+import { PostmarkTransport } from './postmark';
+import { SmtpTransport } from './smtp';
+import { FileCaptureTransport, MemoryCaptureTransport } from './capture';
+import { createLogger } from '../logger';
+
+const log = createLogger('email');
+
+export interface EmailAttachment {
+  filename: string;
+  /** Base64-encoded file content */
+  content: string;
+  contentType: string;
+  contentId?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface SentEmail {
+  /** Provider message id; stored on `Report.emailId` for report emails */
+  messageId: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SentEmail>;
+  /**
+   * Whether a send error can never succeed on retry (bad address,
+   * rejected recipient, …). Used by the EmailQueue worker to skip the
+   * remaining attempts.
+   */
+  isPermanentError(error: unknown): boolean;
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (cachedTransport) return cachedTransport;
+
+  switch (env.EMAIL_TRANSPORT) {
+    case 'smtp':
+      cachedTransport = new SmtpTransport();
+      break;
+    case 'file':
+      cachedTransport = new FileCaptureTransport(env.EMAIL_CAPTURE_DIR);
+      break;
+    case 'memory':
+      cachedTransport = new MemoryCaptureTransport();
+      break;
+    default:
+      cachedTransport = new PostmarkTransport();
+  }
+
+  log.info(`Email transport: ${cachedTransport.name}`);
+  return cachedTransport;
+}
@@ -21,6 +21,9 @@ import {
 import fs from 'fs/promises';
 import path from 'path';
 import { encryptBuffer, decryptBuffer } from './crypto';
+import { createLogger } from './logger';
+
+const log = createLogger('whatsapp-auth');
 
 const FILE_EXT = '.enc.json';
 
@@ -55,7 +58,7 @@ async function readEncrypted(filePath: string): Promise<ReadResult> {
     if ((err as NodeJS.ErrnoException)?.code === 'ENOENT') {
       return { status: 'missing' };
     }
-    console.error(`Failed to read encrypted file ${filePath}:`, err);
+    log.error({ err }, `Failed to read encrypted file ${filePath}`);
     return { status: 'corrupt' };
   }
 
@@ -67,7 +70,7 @@ async function readEncrypted(filePath: string): Promise<ReadResult> {
       value: JSON.parse(plaintext.toString('utf8'), BufferJSON.reviver),
     };
   } catch (err) {
-    console.error(`Failed to decrypt ${filePath}:`, err);
+    log.error({ err }, `Failed to decrypt ${filePath}`);
     return { status: 'corrupt' };
   }
 }
@@ -87,11 +90,11 @@ async function wipeAuthFolder(folder: string): Promise<void> {
         fs.unlink(path.join(folder, name)).catch(() => undefined),
       ),
     );
-    console.warn(
-      `🧹 Wiped ${entries.length} corrupted auth file(s) in ${folder} — fresh QR pairing required`,
+    log.warn(
+      `Wiped ${entries.length} corrupted auth file(s) in ${folder} — fresh QR pairing required`,
     );
   } catch (err) {
-    console.error(`Failed to wipe auth folder ${folder}:`, err);
+    log.error({ err }, `Failed to wipe auth folder ${folder}`);
   }
 }
 
@@ -132,7 +135,9 @@ export async function useEncryptedMultiFileAuthState(
   try {
     await fs.access(legacyCredsPath);
     // Found legacy plaintext file — read, encrypt, then delete
-    console.log(`🔐 Migrating legacy plaintext creds in ${folder} to encrypted format`);
+    log.info(
+      `Migrating legacy plaintext creds in ${folder} to encrypted format`,
+    );
     const legacyJson = await fs.readFile(legacyCredsPath, 'utf8');
     creds = JSON.parse(legacyJson, BufferJSON.reviver) as AuthenticationCreds;
     await writeEncrypted(credsPath, creds);
@@ -149,8 +154,8 @@ export async function useEncryptedMultiFileAuthState(
       // also encrypted with the lost key, so leaving them around would
       // cause the same Decipheriv error on every reconnect (the symptom
       // is an infinite QR loop). Wipe the whole folder and start fresh.
-      console.warn(
-        `⚠️  creds${FILE_EXT} in ${folder} could not be decrypted. Wiping the auth folder so a fresh QR pairing can succeed.`,
+      log.warn(
+        `creds${FILE_EXT} in ${folder} could not be decrypted. Wiping the auth folder so a fresh QR pairing can succeed.`,
       );
       await wipeAuthFolder(folder);
       creds = initAuthCreds();
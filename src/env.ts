@@ -1,4 +1,4 @@
-import { envsafe, port, str, url } from 'envsafe';
+import { bool, envsafe, num, port, str, url } from 'envsafe';
 
 export const env = envsafe({
   REDISHOST: str(),
@@ -11,14 +11,151 @@ export const env = envsafe({
   RAILWAY_STATIC_URL: str({
     devDefault: 'http://localhost:3000',
   }),
-  AUTH_POSTMARK_KEY: str(),
+  // Subsystems this process runs: "api", "worker", "whatsapp" or "all".
+  // A --role=<role> argument takes precedence (see src/role.ts).
+  SERVICE_ROLE: str({
+    choices: ['api', 'worker', 'whatsapp', 'all'],
+    default: 'all',
+  }),
+  // Email backend. "file" and "memory" capture messages instead of sending
+  // them, for local development and tests.
+  EMAIL_TRANSPORT: str({
+    choices: ['postmark', 'smtp', 'file', 'memory'],
+    default: 'postmark',
+  }),
+  AUTH_POSTMARK_KEY: str({
+    default: '',
+    allowEmpty: true, // Required when EMAIL_TRANSPORT=postmark
+  }),
+  SMTP_HOST: str({
+    default: '',
+    allowEmpty: true, // Required when EMAIL_TRANSPORT=smtp
+  }),
+  SMTP_PORT: port({
+    default: 587,
+  }),
+  SMTP_SECURE: bool({
+    default: false, // true for implicit TLS (usually port 465)
+  }),
+  SMTP_USER: str({
+    default: '',
+    allowEmpty: true,
+  }),
+  SMTP_PASSWORD: str({
+    default: '',
+    allowEmpty: true,
+  }),
+  EMAIL_CAPTURE_DIR: str({
+    default: '.email-capture', // Where EMAIL_TRANSPORT=file writes messages
+  }),
+  // EmailQueue retry policy: attempts per job and the base delay for
+  // exponential backoff between them
+  EMAIL_MAX_ATTEMPTS: num({
+    default: 5,
+  }),
+  EMAIL_BACKOFF_DELAY_MS: num({
+    default: 60000,
+  }),
+  // Default review window before a report email is sent (48 hours).
+  // Platforms can override it via PlatformEmailSetting.deliveryDelayMs.
+  EMAIL_DELIVERY_DELAY_MS: num({
+    default: 172800000,
+  }),
+  // PDVReportQueue retry policy for transient failures (LLM provider or
+  // network unavailable); each retry resumes from the checkpoint
+  PDV_MAX_ATTEMPTS: num({
+    default: 3,
+  }),
+  PDV_BACKOFF_DELAY_MS: num({
+    default: 60000,
+  }),
+  // What to do with a PDV report email when some pipeline stages failed:
+  // "send" emails it anyway, "review" holds it until an admin approves it.
+  // A report left without an email (e.g. the PDF failed) is always reviewed
+  PDV_PARTIAL_FAILURE_POLICY: str({
+    choices: ['send', 'review'],
+    default: 'review',
+  }),
+  // LLM backend for the PDV pipeline. "fixture" replays recorded
+  // responses from LLM_FIXTURE_DIR so reports can be generated offline
+  // (CI); LLM_FIXTURE_RECORD=true records them from the real backend.
+  LLM_PROVIDER: str({
+    choices: ['anthropic', 'fixture'],
+    default: 'anthropic',
+  }),
+  LLM_FIXTURE_DIR: str({
+    default: 'fixtures/llm',
+  }),
+  LLM_FIXTURE_RECORD: bool({
+    default: false,
+  }),
+  // Model defaults for PDV prompts; platforms can override them via
+  // PlatformADVSetting (see src/pdv-report/llm/settings.ts)
+  LLM_MODEL: str({
+    default: 'claude-sonnet-4-20250514',
+  }),
+  LLM_MAX_TOKENS: num({
+    default: 5000,
+  }),
+  LLM_WEB_SEARCH_MAX_USES: num({
+    default: 5, // 0 disables web search
+  }),
+  // Retries of a rate-limited or overloaded LLM request, with exponential
+  // backoff (or the provider's retry-after) between them
+  LLM_MAX_RETRIES: num({
+    default: 5,
+  }),
+  // Times a JSON response that fails schema validation is re-prompted
+  // with the validation errors before its pipeline stage fails
+  LLM_JSON_REPAIR_ATTEMPTS: num({
+    default: 2,
+  }),
+  // Pre-PDV prompts run concurrently per report, up to this many at once
+  PDV_LLM_CONCURRENCY: num({
+    default: 3,
+  }),
+  // pino log level: fatal, error, warn, info, debug or trace
+  LOG_LEVEL: str({
+    choices: ['fatal', 'error', 'warn', 'info', 'debug', 'trace'],
+    default: 'info',
+  }),
+  // Expected open /notification/ streams per organisation on one replica.
+  // Each stream listens on its organisation's channels; Node warns about a
+  // possible listener leak once a channel has more listeners than this.
+  SSE_MAX_CONNECTIONS_PER_ORGANIZATION: num({
+    default: 50,
+  }),
+  // Graceful shutdown: how long workers may spend finishing active jobs
+  // before they are closed anyway (unfinished jobs are requeued once their
+  // lock expires), and the hard limit before the process exits regardless
+  WORKER_DRAIN_TIMEOUT_MS: num({
+    default: 20000,
+  }),
+  SHUTDOWN_TIMEOUT_MS: num({
+    default: 30000,
+  }),
   AUTH_SECRET: str(),
-  ANTHROPIC_API_KEY: str(),
+  ANTHROPIC_API_KEY: str({
+    default: '',
+    allowEmpty: true, // Required when LLM_PROVIDER=anthropic
+  }),
   DATABASE_URL: url(),
   FIREFLIES_API_KEY: str(),
   FIREFLIES_WEBHOOK_SECRET: str({
     default: '', // Optional: for verifying webhook signatures
   }),
+  // /postmark-webhook requires the x-postmark-webhook-token header or basic
+  // auth credentials ("user:password" in the webhook URL). At least one is
+  // required in production; without either, other environments accept
+  // unauthenticated webhooks.
+  POSTMARK_WEBHOOK_TOKEN: str({
+    default: '',
+    allowEmpty: true,
+  }),
+  POSTMARK_WEBHOOK_BASIC_AUTH: str({
+    default: '',
+    allowEmpty: true,
+  }),
   DOCUSIGN_HMAC_KEY: str({
     default: '', // Optional: for verifying DocuSign webhook signatures
   }),
@@ -1,4 +1,7 @@
 import { env } from './env';
+import { createLogger } from './logger';
+
+const log = createLogger('fireflies');
 
 interface FirefliesTranscriptResponse {
   data: {
@@ -231,10 +234,7 @@ export async function fetchTranscriptFromFireflies(
 
   if (!response.ok) {
     // Log the full error response for debugging
-    console.error(
-      'Fireflies API Error Response:',
-      JSON.stringify(data, null, 2)
-    );
+    log.error({ data }, 'Fireflies API Error Response');
     throw new Error(
       `Failed to fetch transcript from Fireflies: ${
         response.statusText
@@ -244,10 +244,7 @@ export async function fetchTranscriptFromFireflies(
 
   // Check for GraphQL errors (these can occur even with 200 status)
   if (data.errors) {
-    console.error(
-      'Fireflies GraphQL Errors:',
-      JSON.stringify(data.errors, null, 2)
-    );
+    log.error({ errors: data.errors }, 'Fireflies GraphQL Errors');
     throw new Error(`Fireflies GraphQL errors: ${JSON.stringify(data.errors)}`);
   }
 
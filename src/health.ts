@@ -0,0 +1,86 @@
+/**
+ * Readiness checks for `GET /readyz`.
+ *
+ * Each dependency is checked concurrently with a timeout. Redis, Postgres
+ * and the queue connections must all pass for the process to be ready;
+ * S3 is only checked when it is configured. A process that is shutting
+ * down always reports not ready, so the load balancer stops routing to it
+ * before it closes its connections.
+ */
+
+import type { Queue, Worker } from 'bullmq';
+import { db } from './db';
+import { pingNotificationBus } from './notifications/bus';
+import { checkS3Bucket, isS3Configured } from './s3';
+import { isShuttingDown } from './shutdown';
+
+const CHECK_TIMEOUT_MS = 3000;
+
+export interface CheckResult {
+  ok: boolean;
+  /** Set when the check does not apply to this deployment */
+  skipped?: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+async function timed(run: () => Promise<unknown>): Promise<CheckResult> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      run(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { ok: true, latencyMs: Date.now() - start };
+  } catch (e) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - start,
+      error: e instanceof Error ? e.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function checkQueues(queues: Queue[], workers: Worker[]) {
+  // A round trip over each queue's own connection
+  await Promise.all(queues.map((queue) => queue.getJobCounts('waiting')));
+
+  const stopped = workers.filter((worker) => !worker.isRunning());
+  if (stopped.length > 0) {
+    throw new Error(
+      `Worker not running: ${stopped.map((w) => w.name).join(', ')}`
+    );
+  }
+}
+
+export async function checkReadiness(deps: {
+  queues: Queue[];
+  workers: Worker[];
+}): Promise<Readiness> {
+  const [redis, database, queues, s3] = await Promise.all([
+    timed(() => pingNotificationBus()),
+    timed(() => db.$queryRaw`SELECT 1`),
+    timed(() => checkQueues(deps.queues, deps.workers)),
+    isS3Configured()
+      ? timed(() => checkS3Bucket())
+      : Promise.resolve<CheckResult>({ ok: true, skipped: true }),
+  ]);
+
+  const checks = { redis, database, queues, s3 };
+  const ready =
+    !isShuttingDown() && Object.values(checks).every((check) => check.ok);
+  return { ready, checks };
+}
@@ -0,0 +1,103 @@
+/**
+ * Idempotent job submission.
+ *
+ * Job ids are derived from the report id, plus a hash of the client's
+ * `Idempotency-Key` header when one is sent, so submitting the same
+ * report twice (double clicks, client retries) resolves to the same
+ * BullMQ job instead of running the pipeline again.
+ *
+ * An existing job is returned as-is whatever its state, unless it didn't
+ * succeed: a `failed` job, or a completed one whose result reports a
+ * failure or a partial failure, is replaced so the client can retry. To
+ * deliberately run a successful report again, send a fresh
+ * Idempotency-Key.
+ */
+
+import { createHash } from 'crypto';
+import type { JobState, JobsOptions, Queue } from 'bullmq';
+import { withCorrelationId } from './logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+export interface SubmittedJob {
+  jobId: string;
+  state: JobState | 'unknown';
+  /** True when an existing job was returned instead of enqueuing a new one */
+  duplicate: boolean;
+}
+
+/**
+ * Deterministic job id for `reportId` and/or the client's idempotency
+ * key, or undefined when neither is available (BullMQ then assigns one).
+ * The key is hashed so arbitrary client strings (including `:`, which
+ * BullMQ rejects in custom ids) can't leak into the id.
+ */
+export function idempotentJobId(
+  prefix: string,
+  reportId?: string | null,
+  idempotencyKey?: string
+): string | undefined {
+  if (!reportId && !idempotencyKey) return undefined;
+
+  const parts = [prefix, reportId ?? 'key'];
+  if (idempotencyKey) {
+    parts.push(
+      createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 16)
+    );
+  }
+  return parts.join('-');
+}
+
+/** Read the `Idempotency-Key` header; repeated headers use the first value. */
+export function idempotencyKeyFrom(headers: {
+  [header: string]: string | string[] | undefined;
+}): string | undefined {
+  const value = headers[IDEMPOTENCY_KEY_HEADER];
+  const key = Array.isArray(value) ? value[0] : value;
+  return key?.trim() || undefined;
+}
+
+// Return value of a job that finished without throwing, e.g. a PDV job
+// that saved a partial report on its last attempt
+interface JobOutcome {
+  success?: boolean;
+  partialFailure?: boolean;
+}
+
+/** Whether a submission should replace the existing job in `state`. */
+export function isReplaceableJob(
+  state: JobState | 'unknown',
+  returnValue: unknown
+): boolean {
+  if (state === 'failed') return true;
+  const outcome = returnValue as JobOutcome | null | undefined;
+  return (
+    state === 'completed' &&
+    (outcome?.success === false || outcome?.partialFailure === true)
+  );
+}
+
+export async function addIdempotentJob<TData extends object>(
+  queue: Queue,
+  name: string,
+  data: TData,
+  opts: JobsOptions = {}
+): Promise<SubmittedJob> {
+  if (opts.jobId) {
+    const existing = await queue.getJob(opts.jobId);
+    if (existing) {
+      const state = await existing.getState();
+      if (!isReplaceableJob(state, existing.returnvalue)) {
+        return { jobId: opts.jobId, state, duplicate: true };
+      }
+      await existing.remove();
+    }
+  }
+
+  // The worker logs under the submitting request's correlation id.
+  // Two concurrent submissions can both miss the lookup above; BullMQ
+  // ignores the second add() for an id that already exists, so the
+  // pipeline still only runs once.
+  const job = await queue.add(name, withCorrelationId(data), opts);
+  return { jobId: job.id!, state: await job.getState(), duplicate: false };
+}
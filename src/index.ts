@@ -1,21 +1,101 @@
 import { createBullBoard } from '@bull-board/api';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { FastifyAdapter } from '@bull-board/fastify';
-import fastify, { type FastifyRequest, type FastifyReply } from 'fastify';
+import fastify, {
+  type FastifyBaseLogger,
+  type FastifyInstance,
+  type FastifyReply,
+  type FastifyRequest,
+} from 'fastify';
+import type { Queue, Worker } from 'bullmq';
 import { env } from './env';
 import {
   createQueue,
+  emailJobOptions,
+  pdvJobOptions,
+  requeueDeadLetterEmail,
   setupQueueProcessor,
   setupPDVReportProcessor,
 } from './queue';
 import { FromSchema } from 'json-schema-to-ts';
-import EventEmitter from 'events';
 import fastifySSE from '@fastify/sse';
+import { randomUUID } from 'crypto';
 import { db } from './db';
 import { fetchTranscriptFromFireflies } from './fireflies';
 import { MeetingProcessingStatus } from '@prisma/client';
 import { whatsappService } from './whatsapp';
 import { validateEncryptionKey } from './crypto';
+import { deliveryDelayProperties, resolveEmailDelay } from './delivery-delay';
+import {
+  approveReportEmail,
+  cancelReportEmail,
+  rescheduleReportEmail,
+  sendReportEmailNow,
+  type ActionActor,
+  type ReportEmailActionResult,
+} from './report-email-actions';
+import {
+  handlePostmarkWebhook,
+  isAuthorizedPostmarkWebhook,
+  type PostmarkWebhookPayload,
+} from './postmark-webhook';
+import { getEmailTransport, type EmailTransport } from './email/transport';
+import { renderEmail } from './email/templates';
+import {
+  addIdempotentJob,
+  idempotencyKeyFrom,
+  idempotentJobId,
+} from './idempotency';
+import {
+  closeNotificationBus,
+  publishNotification,
+  subscribeToJobProgress,
+  subscribeToNotifications,
+  type NotificationPayload,
+} from './notifications/bus';
+import { findMissedNotifications } from './notifications/replay';
+import {
+  isInAudience,
+  verifyNotificationStreamToken,
+} from './notifications/auth';
+import { sseConnections } from './notifications/registry';
+import {
+  drainWorker,
+  registerShutdownHandlers,
+  SSE_SHUTDOWN_RETRY_MS,
+} from './shutdown';
+import { resolveServiceRole, runsSubsystem, type ServiceRole } from './role';
+import { checkReadiness } from './health';
+import { summarizeClaudeUsage } from './pdv-report/usage';
+import {
+  createPromptVersion,
+  listPrompts,
+} from './pdv-report/prompts/registry';
+import {
+  metricsRegistry,
+  observeWorker,
+  registerScrapedMetrics,
+} from './metrics';
+import {
+  bindRequestLogContext,
+  correlationIdFromRequest,
+  createLogger,
+  logger,
+} from './logger';
+
+const log = createLogger('server');
+
+/** Reply with the outcome of a report email admin action. */
+function sendActionResult(
+  reply: FastifyReply,
+  result: ReportEmailActionResult
+): void {
+  if (result.ok) {
+    reply.send(result);
+  } else {
+    reply.status(result.status).send({ ok: false, error: result.error });
+  }
+}
 
 /**
  * Verify the shared INTERNAL_API_KEY on protected routes.
@@ -60,6 +140,7 @@ const email = {
         },
       },
     },
+    ...deliveryDelayProperties,
   },
   required: ['fromEmail', 'toEmail', 'subject', 'htmlBody', 'textBody'],
 } as const;
@@ -101,10 +182,12 @@ const job = {
 const notification = {
   type: 'object',
   properties: {
+    id: { type: 'string' },
     notificationTitle: { type: 'string' },
     notificationDescription: { type: 'string' },
     refLink: { type: 'string' },
     notificationRead: { type: 'string' },
+    targetAudience: { type: 'string', enum: ['ALL', 'ADMIN', 'USER'] },
     createdAt: { type: 'string' },
     organizationId: { type: 'string' },
     platformId: { type: 'string' },
@@ -141,6 +224,7 @@ const pdvReportJob = {
         },
       },
     },
+    ...deliveryDelayProperties,
   },
   required: [
     'reportId',
@@ -156,6 +240,40 @@ const pdvReportJob = {
   ],
 } as const;
 
+const reportEmailAction = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string' }, // admin performing the action (for AuditLog)
+    ...deliveryDelayProperties,
+  },
+  required: ['userId'],
+} as const;
+
+const claudeUsageQuery = {
+  type: 'object',
+  properties: {
+    from: { type: 'string' }, // ISO date, inclusive
+    to: { type: 'string' }, // ISO date, exclusive
+    platformId: { type: 'string' },
+    reportLimit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+  },
+} as const;
+
+const promptVersionBody = {
+  type: 'object',
+  properties: {
+    template: { type: 'string', minLength: 1 }, // {{variable}} placeholders
+    systemPrompt: { type: 'string', minLength: 1 },
+    maxTokens: { type: 'integer', minimum: 1 },
+    model: { type: 'string', minLength: 1 },
+    webSearchMaxUses: { type: 'integer', minimum: 0 },
+    platformId: { type: 'string' }, // override for one platform only
+    notes: { type: 'string' },
+  },
+  required: ['template'],
+  additionalProperties: false,
+} as const;
+
 const firefliesWebhook = {
   type: 'object',
   properties: {
@@ -234,7 +352,7 @@ async function handleAdvisorAgreementSigned(
     recipientEmail: string;
     recipientName: string;
   },
-  postmarkClient: import('postmark').ServerClient
+  transport: EmailTransport
 ) {
   // Update community lead with signed status
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -250,30 +368,16 @@ async function handleAdvisorAgreementSigned(
   const firstName =
     envelope.recipientName.split(' ')[0] ?? envelope.recipientName;
 
-  await postmarkClient.sendEmail({
-    From: 'jps@12butterflies.life',
-    To: envelope.recipientEmail,
-    Subject: 'Advisor Agreement Signed - Welcome to One2b!',
-    HtmlBody: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h1 style="color: #1E4364;">Welcome to One2b, ${firstName}!</h1>
-        <p>Thank you for signing the Advisor Collaboration Agreement. We're excited to have you as part of our advisor network.</p>
-        <p>As an advisor, you'll gain access to:</p>
-        <ul>
-          <li>Exclusive networking opportunities</li>
-          <li>Strategic conversations with industry leaders</li>
-          <li>Collaborative opportunities across our community</li>
-        </ul>
-        <p>Our team will be in touch soon with next steps and onboarding information.</p>
-        <p>Best regards,<br>The One2b Team</p>
-      </div>
-    `,
-    TextBody: `Welcome to One2b, ${firstName}!\n\nThank you for signing the Advisor Collaboration Agreement. We're excited to have you as part of our advisor network.\n\nOur team will be in touch soon with next steps and onboarding information.\n\nBest regards,\nThe One2b Team`,
-    MessageStream: 'outbound',
-  });
+  // DocuSign leads aren't tied to a platform, so they get the default branding
+  const email = await renderEmail(
+    'ADVISOR_AGREEMENT_SIGNED',
+    { firstName },
+    null
+  );
+  await transport.send({ to: envelope.recipientEmail, ...email });
 
-  console.log(
-    `✅ Advisor Agreement signed confirmation sent to: ${envelope.recipientEmail}`
+  log.info(
+    `Advisor Agreement signed confirmation sent to: ${envelope.recipientEmail}`
   );
 }
 
@@ -283,7 +387,7 @@ async function handleCommunityNdaSigned(
     recipientEmail: string;
     recipientName: string;
   },
-  postmarkClient: import('postmark').ServerClient
+  transport: EmailTransport
 ) {
   // Get community lead with vertical groups
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -314,35 +418,15 @@ async function handleCommunityNdaSigned(
   const firstName =
     envelope.recipientName.split(' ')[0] ?? envelope.recipientName;
 
-  await postmarkClient.sendEmail({
-    From: 'jps@12butterflies.life',
-    To: envelope.recipientEmail,
-    Subject: 'NDA Signed - Your One2b Community Access',
-    HtmlBody: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h1 style="color: #1E4364;">Welcome to the Community, ${firstName}!</h1>
-        <p>Thank you for signing the NDA. You now have access to our exclusive community WhatsApp group.</p>
-        <p style="margin: 24px 0;">
-          <a href="${whatsappLink}" style="background-color: #25D366; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; display: inline-block;">
-            Join WhatsApp Group
-          </a>
-        </p>
-        <p><strong>Community Guidelines:</strong></p>
-        <ul>
-          <li>Be respectful and professional</li>
-          <li>Keep discussions confidential as per the NDA</li>
-          <li>Share valuable insights and support fellow members</li>
-        </ul>
-        <p>We're excited to have you as part of our community!</p>
-        <p>Best regards,<br>The One2b Team</p>
-      </div>
-    `,
-    TextBody: `Welcome to the Community, ${firstName}!\n\nThank you for signing the NDA. You now have access to our exclusive community WhatsApp group.\n\nJoin here: ${whatsappLink}\n\nWe're excited to have you as part of our community!\n\nBest regards,\nThe One2b Team`,
-    MessageStream: 'outbound',
-  });
+  const email = await renderEmail(
+    'COMMUNITY_NDA_SIGNED',
+    { firstName, whatsappLink },
+    null
+  );
+  await transport.send({ to: envelope.recipientEmail, ...email });
 
-  console.log(
-    `✅ Community NDA signed - WhatsApp access sent to: ${envelope.recipientEmail}`
+  log.info(
+    `Community NDA signed - WhatsApp access sent to: ${envelope.recipientEmail}`
   );
 }
 
@@ -377,8 +461,8 @@ async function updateAllLeadNdaStatus(envelope: any, newStatus: string) {
           ...(newStatus === 'SIGNED' && { ndaSignedAt: new Date() }),
         },
       });
-      console.log(
-        `📋 Updated ${label} lead ${envelope[idField]} ndaStatus to: ${newStatus}`
+      log.info(
+        `Updated ${label} lead ${envelope[idField]} ndaStatus to: ${newStatus}`
       );
     }
   }
@@ -388,7 +472,7 @@ async function updateAllLeadNdaStatus(envelope: any, newStatus: string) {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 async function handleGenericNdaSigned(
   envelope: any,
-  postmarkClient: import('postmark').ServerClient
+  transport: EmailTransport
 ) {
   const genericLeadFields: Array<{ idField: string; label: string }> = [
     { idField: 'companyLeadId', label: 'Company' },
@@ -408,51 +492,82 @@ async function handleGenericNdaSigned(
       const firstName =
         envelope.recipientName.split(' ')[0] ?? envelope.recipientName;
 
-      await postmarkClient.sendEmail({
-        From: 'jps@12butterflies.life',
-        To: envelope.recipientEmail,
-        Subject: 'NDA Signed - Next Steps with One2b',
-        HtmlBody: `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-            <h1 style="color: #1E4364;">Thank You, ${firstName}!</h1>
-            <p>We've received your signed NDA. Thank you for taking this important step.</p>
-            <p><strong>What's Next:</strong></p>
-            <ul>
-              <li>Our team will review your submission</li>
-              <li>We'll be in touch within 24-48 hours</li>
-              <li>You'll receive next steps tailored to your needs</li>
-            </ul>
-            <p>In the meantime, feel free to reach out if you have any questions.</p>
-            <p>Best regards,<br>The One2b Team</p>
-          </div>
-        `,
-        TextBody: `Thank You, ${firstName}!\n\nWe've received your signed NDA. Thank you for taking this important step.\n\nWhat's Next:\n- Our team will review your submission\n- We'll be in touch within 24-48 hours\n- You'll receive next steps tailored to your needs\n\nIn the meantime, feel free to reach out if you have any questions.\n\nBest regards,\nThe One2b Team`,
-        MessageStream: 'outbound',
-      });
+      const email = await renderEmail('NDA_SIGNED', { firstName }, null);
+      await transport.send({ to: envelope.recipientEmail, ...email });
 
-      console.log(
-        `✅ ${label} NDA signed - confirmation email sent to: ${envelope.recipientEmail}`
+      log.info(
+        `${label} NDA signed - confirmation email sent to: ${envelope.recipientEmail}`
       );
     }
   }
 }
 
-const run = async () => {
-  // Create emitter first - needed by both queue processors
-  const myEmitter = new EventEmitter();
+/** Queues shared by the API routes and the workers. */
+interface ServiceQueues {
+  emailQueue: Queue;
+  emailDeadLetterQueue: Queue;
+  emailReviewQueue: Queue;
+  pdvReportQueue: Queue;
+  /** Queues whose jobs can be inspected through GET /jobs/:queue/:jobId */
+  queuesByName: Map<string, Queue>;
+}
+
+const createServiceQueues = (): ServiceQueues => {
+  const emailQueue = createQueue('EmailQueue', {
+    defaultJobOptions: emailJobOptions,
+  });
+  // Exhausted email jobs are parked here (no worker) for inspection/requeue
+  const emailDeadLetterQueue = createQueue('EmailDeadLetterQueue');
 
-  const emailQueue = createQueue('EmailQueue');
-  await setupQueueProcessor(emailQueue.name, myEmitter);
+  const pdvReportQueue = createQueue('PDVReportQueue', {
+    defaultJobOptions: pdvJobOptions,
+  });
+  // Emails of partially failed reports wait here (no worker) for approval
+  const emailReviewQueue = createQueue('EmailReviewQueue');
+
+  const queuesByName = new Map(
+    [emailQueue, emailDeadLetterQueue, emailReviewQueue, pdvReportQueue].map(
+      (queue) => [queue.name, queue]
+    )
+  );
+
+  return {
+    emailQueue,
+    emailDeadLetterQueue,
+    emailReviewQueue,
+    pdvReportQueue,
+    queuesByName,
+  };
+};
 
-  const pdvReportQueue = createQueue('PDVReportQueue');
+const startWorkers = async ({
+  emailQueue,
+  emailDeadLetterQueue,
+  emailReviewQueue,
+  pdvReportQueue,
+}: ServiceQueues): Promise<Worker[]> => {
+  const workers = [
+    await setupQueueProcessor(emailQueue.name, emailDeadLetterQueue),
+    // PDV report worker (needs emailQueue for post-processing)
+    await setupPDVReportProcessor(
+      pdvReportQueue.name,
+      emailQueue,
+      emailReviewQueue
+    ),
+  ];
+  workers.forEach(observeWorker);
+  return workers;
+};
 
+const createServer = async (): Promise<FastifyInstance> => {
   const server = fastify({
     bodyLimit: 10485760, // Sets the global body limit to 10 MB
-    logger: true,
+    loggerInstance: logger as FastifyBaseLogger,
+    genReqId: correlationIdFromRequest,
   });
 
-  // Setup PDV report worker (needs emailQueue and emitter for post-processing)
-  await setupPDVReportProcessor(pdvReportQueue.name, emailQueue, myEmitter);
+  // Everything logged while handling a request carries its correlation id
+  server.addHook('onRequest', bindRequestLogContext);
 
   // Register plugins
   void server.register(require('@fastify/cookie'));
@@ -464,10 +579,72 @@ const run = async () => {
     // Other options like allowedHeaders, exposedHeaders, preflightContinue, optionsSuccessStatus
   });
 
+  return server;
+};
+
+/**
+ * Liveness, readiness and Prometheus metrics. `/healthz` only says the
+ * process is up; `/readyz` checks its dependencies (see ./health).
+ */
+const registerHealthRoutes = (
+  server: FastifyInstance,
+  role: ServiceRole,
+  queues: ServiceQueues,
+  workers: Worker[]
+) => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get('/healthz', async (_: FastifyRequest, reply: any) => {
+    reply.send({ ok: true, role, uptimeSeconds: Math.round(process.uptime()) });
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get('/readyz', async (_: FastifyRequest, reply: any) => {
+    const { ready, checks } = await checkReadiness({
+      queues: Array.from(queues.queuesByName.values()),
+      workers,
+    });
+    reply.status(ready ? 200 : 503).send({ ok: ready, role, checks });
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get(
+    '/metrics',
+    { preHandler: verifyApiKey },
+    async (_: FastifyRequest, reply: FastifyReply) => {
+      try {
+        reply
+          .header('Content-Type', metricsRegistry.contentType)
+          .send(await metricsRegistry.metrics());
+      } catch (e) {
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+};
+
+/** Bull Board and every route except the WhatsApp ones. */
+const registerApiRoutes = async (
+  server: FastifyInstance,
+  {
+    emailQueue,
+    emailDeadLetterQueue,
+    emailReviewQueue,
+    pdvReportQueue,
+    queuesByName,
+  }: ServiceQueues
+) => {
   // Register BullBoard
   const serverAdapter = new FastifyAdapter();
   createBullBoard({
-    queues: [new BullMQAdapter(emailQueue), new BullMQAdapter(pdvReportQueue)],
+    queues: [
+      new BullMQAdapter(emailQueue),
+      new BullMQAdapter(emailDeadLetterQueue),
+      new BullMQAdapter(emailReviewQueue),
+      new BullMQAdapter(pdvReportQueue),
+    ],
     serverAdapter,
   });
   serverAdapter.setBasePath('/ui');
@@ -479,15 +656,11 @@ const run = async () => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (server as any).get(
     '/notification/',
-    { sse: true },
+    { sse: true, preHandler: verifyNotificationStreamToken },
     async (request: FastifyRequest, reply: any) => {
-      const headers = request.headers;
-
       try {
-        const organisationId = headers['x-organisation-id'];
-        const platformId = headers['x-platform-id'];
-
-        //TODO: add server/user authentication as additional security layer
+        // Scope comes from the verified token, never from client headers
+        const claims = request.notificationClaims!;
 
         // Keep connection alive (prevents automatic close)
         reply.sse.keepAlive();
@@ -495,25 +668,95 @@ const run = async () => {
         // Send initial message
         await reply.sse?.send({ data: 'Connected' });
 
-        myEmitter.on(
-          `notificationEvent_${platformId}_${organisationId}`,
+        // The notification row id is the SSE event id, so the browser
+        // sends it back as Last-Event-ID when it reconnects
+        const sendNotification = async (data: NotificationPayload) => {
+          await reply.sse?.send({
+            id: data.id,
+            event: 'notification',
+            data: data,
+            retry: 1000,
+          });
+        };
+
+        // While replaying missed notifications, hold back live ones so
+        // the client receives them after the backlog, in order
+        const lastEventId: string | null = reply.sse.lastEventId;
+        let pending: NotificationPayload[] | null = lastEventId ? [] : null;
+
+        // Notifications are fanned out through Redis, so this stream
+        // receives events published by any replica
+        const unsubscribe = subscribeToNotifications(
+          claims.platformId,
+          claims.organizationId,
+          async (data) => {
+            if (!isInAudience(claims.role, data.targetAudience)) return;
+            log.info({ data }, 'Received notification');
+            if (pending) {
+              pending.push(data);
+              return;
+            }
+            await sendNotification(data);
+          }
+        );
+
+        // Job progress for the organisation's reports. These events carry
+        // no id so they don't move the client's Last-Event-ID
+        const unsubscribeProgress = subscribeToJobProgress(
+          claims.platformId,
+          claims.organizationId,
           async (data) => {
-            console.log('Received notification: ', data);
-            // Send a message
+            await reply.sse?.send({ event: 'job-progress', data });
+          }
+        );
+
+        // Track the connection; unregistering detaches its listeners.
+        // On shutdown the stream is ended with a retry hint so the
+        // browser reconnects instead of waiting on a dead socket
+        const connectionId = sseConnections.register(
+          claims,
+          () => {
+            unsubscribe();
+            unsubscribeProgress();
+          },
+          async (retryMs) => {
             await reply.sse?.send({
-              event: 'notification',
-              data: data,
-              retry: 1000,
+              event: 'shutdown',
+              data: { message: 'Server restarting' },
+              retry: retryMs,
             });
+            reply.sse?.close();
           }
         );
 
         // Clean up when connection closes
         reply.sse.onClose(() => {
-          console.log('Connection closed');
+          sseConnections.unregister(connectionId);
+          log.info('Connection closed');
         });
+
+        if (lastEventId) {
+          const replayedIds = new Set<string>();
+          try {
+            const missed = await findMissedNotifications(claims, lastEventId);
+            log.info(
+              `Replaying ${missed.length} notification(s) after ${lastEventId}`
+            );
+            for (const data of missed) {
+              if (data.id) replayedIds.add(data.id);
+              await sendNotification(data);
+            }
+          } finally {
+            const buffered = pending ?? [];
+            pending = null;
+            for (const data of buffered) {
+              if (data.id && replayedIds.has(data.id)) continue;
+              await sendNotification(data);
+            }
+          }
+        }
       } catch (e) {
-        console.error('Error in notification stream: ', e);
+        log.error({ err: e }, 'Error in notification stream');
         // Send with full options
         await reply.sse?.send({
           event: 'error',
@@ -524,6 +767,16 @@ const run = async () => {
     }
   );
 
+  // Live SSE connection counts on this replica, per platform and org
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get(
+    '/notification/connections',
+    { preHandler: verifyApiKey },
+    async (_req: FastifyRequest, reply: FastifyReply) => {
+      reply.send({ ok: true, ...sseConnections.counts() });
+    }
+  );
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (server as any).post(
     '/notification-relay/',
@@ -540,15 +793,11 @@ const run = async () => {
       try {
         const body = request.body;
 
-        const organisationId = body.organizationId;
-        const platformId = body.platformId;
-
-        myEmitter.emit(
-          `notificationEvent_${platformId}_${organisationId}`,
-          body
-        );
+        // Relayed notifications normally carry the id of the row the main
+        // app wrote; fall back to a random id so every event has one
+        await publishNotification({ ...body, id: body.id ?? randomUUID() });
       } catch (e) {
-        console.error('Error relaying notification: ', e);
+        log.error({ err: e }, 'Error relaying notification');
       }
     }
   );
@@ -565,13 +814,37 @@ const run = async () => {
       req: FastifyRequest<{ Body: FromSchema<typeof email> }>,
       reply: FastifyReply
     ) => {
-      const body = req.body;
+      const { deliverAt, delayMs, ...body } = req.body;
       try {
-        const job = await emailQueue.add(`Email`, body, { delay: 172800000 });
+        // Resolve the platform through the report so its delay override applies
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const report = body.reportId
+          ? await (db as any).report.findUnique({
+              where: { id: body.reportId },
+              select: { platformId: true },
+            })
+          : null;
+        const delay = await resolveEmailDelay(report?.platformId, {
+          deliverAt,
+          delayMs,
+        });
+        const submitted = await addIdempotentJob(emailQueue, 'Email', body, {
+          delay,
+          jobId: idempotentJobId(
+            'email',
+            body.reportId,
+            idempotencyKeyFrom(req.headers)
+          ),
+        });
+        if (submitted.duplicate) {
+          log.info(
+            `Email job ${submitted.jobId} already exists (${submitted.state}), not enqueuing a duplicate`
+          );
+        }
 
         reply.send({
           ok: true,
-          jobId: job.id,
+          ...submitted,
         });
       } catch (e) {
         reply.send({
@@ -634,6 +907,170 @@ const run = async () => {
     }
   );
 
+  // Requeue a dead-lettered email for immediate delivery
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/email-dead-letter/:jobId/requeue',
+    { preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{ Params: { jobId: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const jobId = await requeueDeadLetterEmail(
+          emailDeadLetterQueue,
+          emailQueue,
+          req.params.jobId
+        );
+
+        if (!jobId) {
+          reply.status(404).send({ ok: false, error: 'Job not found' });
+          return;
+        }
+
+        reply.send({ ok: true, jobId });
+      } catch (e) {
+        log.error({ err: e }, 'Error requeueing dead-letter email');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // ─── Report Email Admin Actions ──────────────────────────────
+
+  const actorFrom = (
+    req: FastifyRequest<{ Body: FromSchema<typeof reportEmailAction> }>
+  ): ActionActor => ({
+    userId: req.body.userId,
+    ipAddress: req.ip,
+    userAgent: req.headers['user-agent'],
+  });
+
+  // Release a report's delayed email immediately
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/reports/:reportId/email/send-now',
+    { schema: { body: reportEmailAction }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Params: { reportId: string };
+        Body: FromSchema<typeof reportEmailAction>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const result = await sendReportEmailNow(
+          emailQueue,
+          req.params.reportId,
+          actorFrom(req)
+        );
+        sendActionResult(reply, result);
+      } catch (e) {
+        log.error({ err: e }, 'Error releasing report email');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Move a report's delayed email to a new time (deliverAt or delayMs)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/reports/:reportId/email/reschedule',
+    { schema: { body: reportEmailAction }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Params: { reportId: string };
+        Body: FromSchema<typeof reportEmailAction>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { deliverAt, delayMs } = req.body;
+        const result = await rescheduleReportEmail(
+          emailQueue,
+          req.params.reportId,
+          { deliverAt, delayMs },
+          actorFrom(req)
+        );
+        sendActionResult(reply, result);
+      } catch (e) {
+        log.error({ err: e }, 'Error rescheduling report email');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Approve the held email of a partially failed report (PENDING_REVIEW)
+  // and schedule it, optionally with deliverAt or delayMs
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/reports/:reportId/email/approve',
+    { schema: { body: reportEmailAction }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Params: { reportId: string };
+        Body: FromSchema<typeof reportEmailAction>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const { deliverAt, delayMs } = req.body;
+        const result = await approveReportEmail(
+          emailReviewQueue,
+          emailQueue,
+          req.params.reportId,
+          { deliverAt, delayMs },
+          actorFrom(req)
+        );
+        sendActionResult(reply, result);
+      } catch (e) {
+        log.error({ err: e }, 'Error approving report email');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Cancel a report's delayed email and reset its delivery status
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/reports/:reportId/email/cancel',
+    { schema: { body: reportEmailAction }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Params: { reportId: string };
+        Body: FromSchema<typeof reportEmailAction>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const result = await cancelReportEmail(
+          emailQueue,
+          req.params.reportId,
+          actorFrom(req)
+        );
+        sendActionResult(reply, result);
+      } catch (e) {
+        log.error({ err: e }, 'Error cancelling report email');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
   // PDV Report generation job endpoint
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (server as any).post(
@@ -649,19 +1086,165 @@ const run = async () => {
     ) => {
       const body = req.body;
       try {
-        const job = await pdvReportQueue.add('PDVReport', body);
+        const submitted = await addIdempotentJob(
+          pdvReportQueue,
+          'PDVReport',
+          body,
+          {
+            jobId: idempotentJobId(
+              'pdv',
+              body.reportId,
+              idempotencyKeyFrom(req.headers)
+            ),
+          }
+        );
 
-        console.log(
-          `📋 PDV report job ${job.id} queued for ${body.orgName} (report: ${body.reportId})`
+        log.info(
+          submitted.duplicate
+            ? `PDV report job ${submitted.jobId} already exists (${submitted.state}) for report ${body.reportId}`
+            : `PDV report job ${submitted.jobId} queued for ${body.orgName} (report: ${body.reportId})`
         );
 
         reply.send({
           ok: true,
-          jobId: job.id,
+          ...submitted,
         });
       } catch (e) {
-        console.error('Error adding PDV report job:', e);
+        log.error({ err: e }, 'Error adding PDV report job');
+        reply.send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Job status and progress (PDV report jobs report progress per stage)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get(
+    '/jobs/:queue/:jobId',
+    { preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{ Params: { queue: string; jobId: string } }>,
+      reply: FastifyReply
+    ) => {
+      const queue = queuesByName.get(req.params.queue);
+      if (!queue) {
+        reply.status(404).send({ ok: false, error: 'Queue not found' });
+        return;
+      }
+
+      try {
+        const job = await queue.getJob(req.params.jobId);
+        if (!job) {
+          reply.status(404).send({ ok: false, error: 'Job not found' });
+          return;
+        }
+
+        const toISO = (timestamp?: number) =>
+          timestamp ? new Date(timestamp).toISOString() : null;
+
         reply.send({
+          ok: true,
+          job: {
+            id: job.id,
+            name: job.name,
+            queue: queue.name,
+            state: await job.getState(),
+            progress: job.progress,
+            attemptsMade: job.attemptsMade,
+            failedReason: job.failedReason ?? null,
+            createdAt: toISO(job.timestamp),
+            scheduledFor: job.delay ? toISO(job.timestamp + job.delay) : null,
+            processedAt: toISO(job.processedOn),
+            finishedAt: toISO(job.finishedOn),
+          },
+        });
+      } catch (e) {
+        log.error({ err: e }, 'Error fetching job status');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // Claude usage and cost, per report, platform, pipeline step and month
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get(
+    '/usage/claude',
+    { schema: { querystring: claudeUsageQuery }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Querystring: FromSchema<typeof claudeUsageQuery>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { from, to, platformId, reportLimit } = req.query;
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ([fromDate, toDate].some((date) => date && isNaN(date.getTime()))) {
+        reply.status(400).send({ ok: false, error: 'Invalid date range' });
+        return;
+      }
+
+      try {
+        const summary = await summarizeClaudeUsage(
+          { from: fromDate, to: toDate, platformId },
+          reportLimit
+        );
+        reply.send({ ok: true, ...summary });
+      } catch (e) {
+        log.error({ err: e }, 'Error summarizing Claude usage');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // PDV prompt library: built-in prompts and their stored versions
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).get(
+    '/prompts',
+    { preHandler: verifyApiKey },
+    async (_req: FastifyRequest, reply: FastifyReply) => {
+      try {
+        reply.send({ ok: true, prompts: await listPrompts() });
+      } catch (e) {
+        log.error({ err: e }, 'Error listing prompts');
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // New prompt version; used by new reports unless a platform is pinned
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/prompts/:key/versions',
+    { schema: { body: promptVersionBody }, preHandler: verifyApiKey },
+    async (
+      req: FastifyRequest<{
+        Params: { key: string };
+        Body: FromSchema<typeof promptVersionBody>;
+      }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const result = await createPromptVersion(req.params.key, req.body);
+        if (result.ok) {
+          reply.status(201).send(result);
+        } else {
+          reply.status(result.status).send({ ok: false, error: result.error });
+        }
+      } catch (e) {
+        log.error({ err: e }, 'Error creating prompt version');
+        reply.status(500).send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
         });
@@ -685,7 +1268,7 @@ const run = async () => {
       const { meetingId, eventType, clientReferenceId } = req.body;
 
       try {
-        console.log(
+        log.info(
           `Received Fireflies webhook: ${eventType} for meeting ${meetingId}`
         );
 
@@ -705,7 +1288,7 @@ const run = async () => {
         });
 
         if (existing) {
-          console.log(`Meeting ${meetingId} already exists, skipping`);
+          log.info(`Meeting ${meetingId} already exists, skipping`);
           reply.send({
             ok: true,
             message: 'Meeting already processed',
@@ -737,7 +1320,7 @@ const run = async () => {
             });
 
             // Wait for Fireflies to fully process the transcript (30 seconds)
-            console.log(
+            log.info(
               `Waiting 30 seconds before fetching transcript for meeting ${meetingId}...`
             );
             await new Promise((resolve) => setTimeout(resolve, 30000));
@@ -800,13 +1383,13 @@ const run = async () => {
               },
             });
 
-            console.log(
+            log.info(
               `Successfully processed meeting ${meetingId}, matched: ${
                 match ? match.type : 'none'
               }`
             );
           } catch (error) {
-            console.error(`Error processing meeting ${meetingId}:`, error);
+            log.error({ err: error }, `Error processing meeting ${meetingId}`);
 
             // Update record with error status
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -827,7 +1410,7 @@ const run = async () => {
           message: 'Webhook received, processing in background',
         });
       } catch (e) {
-        console.error('Error handling Fireflies webhook:', e);
+        log.error({ err: e }, 'Error handling Fireflies webhook');
         reply.send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -861,13 +1444,11 @@ const run = async () => {
         consentUrl.searchParams.set('client_id', env.DOCUSIGN_INTEGRATION_KEY);
         consentUrl.searchParams.set('redirect_uri', redirectUri);
 
-        console.log(
-          `🔐 Redirecting to DocuSign consent: ${consentUrl.toString()}`
-        );
+        log.info(`Redirecting to DocuSign consent: ${consentUrl.toString()}`);
 
         reply.redirect(consentUrl.toString());
       } catch (e) {
-        console.error('Error building DocuSign consent URL:', e);
+        log.error({ err: e }, 'Error building DocuSign consent URL');
         reply.status(500).send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -894,9 +1475,7 @@ const run = async () => {
         const { code, error, error_description } = req.query;
 
         if (error) {
-          console.error(
-            `DocuSign OAuth error: ${error} - ${error_description}`
-          );
+          log.error(`DocuSign OAuth error: ${error} - ${error_description}`);
           reply.type('text/html').send(`
             <!DOCTYPE html>
             <html>
@@ -919,7 +1498,7 @@ const run = async () => {
           // Consent was granted successfully
           // For JWT authentication, we don't need to exchange the code for tokens
           // The consent grant is now stored in DocuSign and JWT auth will work
-          console.log('✅ DocuSign consent granted successfully');
+          log.info('DocuSign consent granted successfully');
 
           reply.type('text/html').send(`
             <!DOCTYPE html>
@@ -954,7 +1533,7 @@ const run = async () => {
           `);
         }
       } catch (e) {
-        console.error('Error handling DocuSign callback:', e);
+        log.error({ err: e }, 'Error handling DocuSign callback');
         reply.status(500).send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -975,7 +1554,7 @@ const run = async () => {
         const event = payload.event;
 
         if (!envelopeId || !event) {
-          console.log('DocuSign webhook: Missing envelopeId or event');
+          log.info('DocuSign webhook: Missing envelopeId or event');
           reply.send({ ok: true, message: 'Missing required data' });
           return;
         }
@@ -983,8 +1562,8 @@ const run = async () => {
         // Extract status from event field: "envelope-completed" → "completed"
         const status = event.replace(/^envelope-/, '');
 
-        console.log(
-          `📩 DocuSign webhook received: envelope ${envelopeId}, event: ${event}, status: ${status}`
+        log.info(
+          `DocuSign webhook received: envelope ${envelopeId}, event: ${event}, status: ${status}`
         );
 
         // Map DocuSign status to our enum
@@ -1010,9 +1589,7 @@ const run = async () => {
         });
 
         if (!envelope) {
-          console.log(
-            `DocuSign webhook: Envelope ${envelopeId} not found in DB`
-          );
+          log.info(`DocuSign webhook: Envelope ${envelopeId} not found in DB`);
           reply.send({ ok: true, message: 'Envelope not found' });
           return;
         }
@@ -1030,18 +1607,14 @@ const run = async () => {
           },
         });
 
-        console.log(
-          `✅ Updated envelope ${envelopeId} status to: ${newStatus}`
-        );
+        log.info(`Updated envelope ${envelopeId} status to: ${newStatus}`);
 
         // Update ndaStatus on all linked leads for every status change
         await updateAllLeadNdaStatus(envelope, newStatus);
 
         // Handle completion based on document type
         if (newStatus === 'SIGNED') {
-          // Create Postmark client for sending emails
-          const { ServerClient } = await import('postmark');
-          const postmarkClient = new ServerClient(env.AUTH_POSTMARK_KEY);
+          const transport = getEmailTransport();
 
           switch (envelope.documentType) {
             case 'ADVISOR_AGREEMENT':
@@ -1052,7 +1625,7 @@ const run = async () => {
                     recipientEmail: envelope.recipientEmail,
                     recipientName: envelope.recipientName,
                   },
-                  postmarkClient
+                  transport
                 );
               }
               break;
@@ -1065,23 +1638,23 @@ const run = async () => {
                     recipientEmail: envelope.recipientEmail,
                     recipientName: envelope.recipientName,
                   },
-                  postmarkClient
+                  transport
                 );
               }
               break;
 
             case 'COMPANY_NDA':
-              await handleGenericNdaSigned(envelope, postmarkClient);
+              await handleGenericNdaSigned(envelope, transport);
               break;
 
             default:
-              console.log(`Unknown document type: ${envelope.documentType}`);
+              log.info(`Unknown document type: ${envelope.documentType}`);
           }
         }
 
         reply.send({ ok: true, message: 'Webhook processed successfully' });
       } catch (e) {
-        console.error('Error handling DocuSign webhook:', e);
+        log.error({ err: e }, 'Error handling DocuSign webhook');
         reply.send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -1090,8 +1663,44 @@ const run = async () => {
     }
   );
 
-  // ─── WhatsApp Integration Routes ─────────────────────────────
+  // Postmark webhook endpoint (Delivery, Bounce, SpamComplaint, Open)
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (server as any).post(
+    '/postmark-webhook',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      if (!isAuthorizedPostmarkWebhook(req.headers)) {
+        log.warn('Rejected unauthenticated Postmark webhook');
+        reply.status(401).send({ ok: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const payload = req.body as PostmarkWebhookPayload;
 
+      try {
+        if (!payload?.RecordType || !payload.MessageID) {
+          reply.send({ ok: true, message: 'Missing required data' });
+          return;
+        }
+
+        const result = await handlePostmarkWebhook(payload);
+        reply.send({ ok: true, ...result });
+      } catch (e) {
+        log.error({ err: e }, 'Error handling Postmark webhook');
+        // Non-2xx makes Postmark retry the webhook later
+        reply.status(500).send({
+          ok: false,
+          error: e instanceof Error ? e.message : 'Unknown error',
+        });
+      }
+    }
+  );
+};
+
+/**
+ * WhatsApp session routes. The sockets live in this process's memory, so
+ * only the process running the sessions serves them.
+ */
+const registerWhatsAppRoutes = (server: FastifyInstance) => {
   // Connect a WhatsApp session (create socket, begin QR flow)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (server as any).post(
@@ -1111,7 +1720,7 @@ const run = async () => {
         await whatsappService.connect(sessionId);
         reply.send({ ok: true, message: 'Connection initiated' });
       } catch (e) {
-        console.error('Error connecting WhatsApp:', e);
+        log.error({ err: e }, 'Error connecting WhatsApp');
         reply.status(500).send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -1295,7 +1904,7 @@ const run = async () => {
         const result = await whatsappService.sendReply(req.body);
         reply.send({ ok: true, ...result });
       } catch (e) {
-        console.error('Error sending WhatsApp reply:', e);
+        log.error({ err: e }, 'Error sending WhatsApp reply');
         reply.status(500).send({
           ok: false,
           error: e instanceof Error ? e.message : 'Unknown error',
@@ -1303,27 +1912,98 @@ const run = async () => {
       }
     }
   );
+};
 
-  // Fail fast if encryption key is misconfigured
-  try {
-    validateEncryptionKey();
-    console.log('✅ WhatsApp encryption key validated');
-  } catch (err) {
-    console.warn('⚠️ WhatsApp encryption key not configured:', (err as Error).message);
-  }
+const run = async () => {
+  const role = resolveServiceRole();
+  const serveApi = runsSubsystem(role, 'api');
+  const serveWhatsApp = runsSubsystem(role, 'whatsapp');
+  log.info(`Starting queue-service as role "${role}"`);
+
+  // Every role enqueues or processes jobs, so all roles open the queues
+  const queues = createServiceQueues();
+
+  const workers = runsSubsystem(role, 'worker')
+    ? await startWorkers(queues)
+    : [];
+
+  registerScrapedMetrics({
+    queues: Array.from(queues.queuesByName.values()),
+    sseConnections: () => sseConnections.size,
+    whatsappSessions: () => whatsappService.getSessionStatusCounts(),
+  });
+
+  // Every role serves the health and metrics routes; worker processes
+  // serve nothing else
+  const server = await createServer();
+  registerHealthRoutes(server, role, queues, workers);
+  if (serveApi) await registerApiRoutes(server, queues);
+  if (serveWhatsApp) registerWhatsAppRoutes(server);
+
+  // Stop in dependency order: no new requests or jobs first, then let
+  // in-flight work finish before closing the connections it relies on
+  registerShutdownHandlers([
+    {
+      name: 'HTTP server and SSE streams',
+      run: async () => {
+        // close() answers new requests with 503 straight away, but only
+        // resolves once the long-lived SSE responses have ended
+        const closing = server.close();
+        const streams = await sseConnections.closeAll(SSE_SHUTDOWN_RETRY_MS);
+        log.info(`Closed ${streams} SSE stream(s)`);
+        await closing;
+      },
+    },
+    {
+      name: 'workers',
+      run: () => Promise.all(workers.map((worker) => drainWorker(worker))),
+    },
+    ...(serveWhatsApp
+      ? [
+          {
+            name: 'WhatsApp sessions',
+            run: () => whatsappService.shutdown(),
+          },
+        ]
+      : []),
+    {
+      name: 'queues and Redis',
+      run: () =>
+        Promise.all([
+          ...Array.from(queues.queuesByName.values(), (q) => q.close()),
+          closeNotificationBus(),
+        ]),
+    },
+    {
+      name: 'database',
+      run: () => db.$disconnect(),
+    },
+  ]);
 
   await server.listen({ port: env.PORT, host: '0.0.0.0' });
-  console.log(
-    `To populate the queue and demo the UI, run: curl https://${env.RAILWAY_STATIC_URL}/add-job?id=1&email=hello%40world.com`
-  );
+  if (serveApi) {
+    log.info(
+      `To populate the queue and demo the UI, run: curl https://${env.RAILWAY_STATIC_URL}/add-job?id=1&email=hello%40world.com`
+    );
+  }
 
-  // Restore previously connected WhatsApp sessions (fire-and-forget so it
-  // doesn't block the listen call). Each session reconnects via persisted
-  // Baileys auth state in .whatsapp-auth/{sessionId}/.
-  void whatsappService.restoreSessions();
+  if (serveWhatsApp) {
+    // Fail fast if encryption key is misconfigured
+    try {
+      validateEncryptionKey();
+      log.info('WhatsApp encryption key validated');
+    } catch (err) {
+      log.warn({ err }, 'WhatsApp encryption key not configured');
+    }
+
+    // Restore previously connected WhatsApp sessions (fire-and-forget so
+    // it doesn't block startup). Each session reconnects via persisted
+    // Baileys auth state in .whatsapp-auth/{sessionId}/.
+    void whatsappService.restoreSessions();
+  }
 };
 
 run().catch((e) => {
-  console.error(e);
+  log.fatal({ err: e }, 'Failed to start');
   process.exit(1);
 });
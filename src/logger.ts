@@ -0,0 +1,183 @@
+/**
+ * Structured logging.
+ *
+ * A single pino logger — also used by Fastify for its request logs —
+ * writes one JSON object per line. Each line carries the current log
+ * context from AsyncLocalStorage, so ids never have to be threaded
+ * through call chains by hand:
+ *
+ * - an HTTP request gets its correlation id from the `x-correlation-id`
+ *   header (or a new one), and the id is echoed back on the response
+ * - jobs enqueued while handling it store the id in `data.correlationId`
+ * - workers restore it, together with the job id, queue name and report
+ *   id, while they process the job
+ *
+ * so one report can be followed from `/add-pdv-report-job` through both
+ * workers to the email transport. Email addresses are masked and message
+ * bodies dropped at log time.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Job, Processor } from 'bullmq';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import pino from 'pino';
+import { env } from './env';
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+export interface LogContext {
+  correlationId: string;
+  reportId?: string;
+  jobId?: string;
+  queue?: string;
+}
+
+/** Job data fields the workers read their log context from. */
+export interface CorrelatedJobData {
+  correlationId?: string;
+  reportId?: string | null;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+// Incoming ids are echoed into every log line, so only accept tame ones
+const VALID_CORRELATION_ID = /^[\w.-]{1,128}$/;
+
+const EMAIL_ADDRESS = /([\w.%+-])[\w.%+-]*@([\w-]+(?:\.[\w-]+)+)/g;
+
+// Keys whose values are message content (email bodies, WhatsApp texts,
+// Claude prompts and responses) and never belong in the logs
+const CONTENT_KEYS = [
+  'htmlBody',
+  'textBody',
+  'attachments',
+  'content',
+  'text',
+  'prompt',
+  'response',
+];
+
+/** Mask email addresses: `jane.doe@example.com` → `j***@example.com`. */
+export const maskEmails = (value: string): string =>
+  value.replace(EMAIL_ADDRESS, '$1***@$2');
+
+function maskDeep(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return maskEmails(value);
+  if (value instanceof Error) {
+    return maskDeep(pino.stdSerializers.err(value), seen);
+  }
+  if (Array.isArray(value)) return value.map((item) => maskDeep(item, seen));
+  if (value === null || typeof value !== 'object') return value;
+
+  // Leave dates, buffers and other class instances to the serializers
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, maskDeep(item, seen)])
+  );
+}
+
+export const logger = pino({
+  level: env.LOG_LEVEL,
+  mixin: () => ({ ...logContext.getStore() }),
+  redact: {
+    paths: CONTENT_KEYS.flatMap((key) => [key, `*.${key}`]),
+    censor: '[redacted]',
+  },
+  formatters: {
+    log: (object) => maskDeep(object, new WeakSet()) as Record<string, unknown>,
+  },
+  hooks: {
+    // The message string (and any printf-style arguments) bypass the
+    // formatter above
+    logMethod(args, method) {
+      const masked = args.map((arg) =>
+        typeof arg === 'string' ? maskEmails(arg) : arg
+      ) as Parameters<typeof method>;
+      method.apply(this, masked);
+    },
+  },
+});
+
+/** Logger for one module; its lines carry `module: <name>`. */
+export const createLogger = (module: string) => logger.child({ module });
+
+export const getLogContext = (): LogContext | undefined =>
+  logContext.getStore();
+
+/**
+ * Run `fn` with `context` added to the current log context. Outside any
+ * context a new correlation id is started.
+ */
+export function withLogContext<T>(
+  context: Partial<LogContext>,
+  fn: () => T
+): T {
+  const current = logContext.getStore();
+  const defined = Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined)
+  );
+  return logContext.run(
+    { correlationId: randomUUID(), ...current, ...defined },
+    fn
+  );
+}
+
+/**
+ * Job data with the current correlation id added, so the worker that
+ * picks the job up logs under the same id.
+ */
+export function withCorrelationId<T extends object>(
+  data: T
+): T & { correlationId?: string } {
+  const correlationId = logContext.getStore()?.correlationId;
+  return correlationId ? { ...data, correlationId } : data;
+}
+
+/**
+ * Wrap a BullMQ processor so everything it logs carries the job's
+ * correlation id, job id, queue and report id.
+ */
+export function withJobLogContext<T, R>(
+  processor: (job: Job<T, R>) => Promise<R>
+): Processor<T, R> {
+  return (job) => {
+    const data = job.data as CorrelatedJobData;
+    return logContext.run(
+      {
+        // Jobs enqueued without one still get a stable id
+        correlationId: data.correlationId ?? `${job.queueName}-${job.id}`,
+        jobId: job.id,
+        queue: job.queueName,
+        ...(data.reportId && { reportId: data.reportId }),
+      },
+      () => processor(job)
+    );
+  };
+}
+
+/** Fastify `genReqId`: the caller's correlation id, or a new one. */
+export function correlationIdFromRequest(req: {
+  headers: { [header: string]: string | string[] | undefined };
+}): string {
+  const header = req.headers[CORRELATION_ID_HEADER];
+  const id = Array.isArray(header) ? header[0] : header;
+  return id && VALID_CORRELATION_ID.test(id) ? id : randomUUID();
+}
+
+/**
+ * Fastify `onRequest` hook: run the rest of the request inside its log
+ * context and return the correlation id to the caller.
+ */
+export function bindRequestLogContext(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  done: () => void
+): void {
+  reply.header(CORRELATION_ID_HEADER, request.id);
+  logContext.run({ correlationId: request.id }, done);
+}
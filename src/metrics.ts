@@ -0,0 +1,132 @@
+/**
+ * Prometheus metrics, served by `GET /metrics`.
+ *
+ * Job durations, failures and Claude token usage are recorded as they
+ * happen; queue depths, SSE clients and WhatsApp session states are read
+ * from their sources on every scrape. Counters are per process, so every
+ * replica should be scraped (queue depths come from Redis and are the
+ * same everywhere).
+ */
+
+import type { Job, Queue, Worker } from 'bullmq';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'queue_service_' });
+
+const jobDuration = new Histogram({
+  name: 'queue_service_job_duration_seconds',
+  help: 'Time from a job being picked up to finishing, per queue and outcome',
+  labelNames: ['queue', 'status'],
+  // PDV reports run for minutes, emails for seconds
+  buckets: [0.5, 1, 5, 15, 30, 60, 120, 300, 600, 1200],
+  registers: [metricsRegistry],
+});
+
+const jobFailures = new Counter({
+  name: 'queue_service_job_failures_total',
+  help: 'Failed job attempts per queue',
+  labelNames: ['queue'],
+  registers: [metricsRegistry],
+});
+
+const claudeTokens = new Counter({
+  name: 'queue_service_claude_tokens_total',
+  help: 'Claude API tokens used, by direction',
+  labelNames: ['type'],
+  registers: [metricsRegistry],
+});
+
+const JOB_STATES = [
+  'waiting',
+  'active',
+  'delayed',
+  'prioritized',
+  'paused',
+  'completed',
+  'failed',
+] as const;
+
+/** Record the duration and failures of every job a worker processes. */
+export function observeWorker(worker: Worker): void {
+  const observe = (job: Job, status: 'completed' | 'failed') => {
+    if (!job.processedOn || !job.finishedOn) return;
+    jobDuration.observe(
+      { queue: worker.name, status },
+      (job.finishedOn - job.processedOn) / 1000
+    );
+  };
+
+  worker.on('completed', (job) => observe(job, 'completed'));
+  worker.on('failed', (job) => {
+    jobFailures.inc({ queue: worker.name });
+    if (job) observe(job, 'failed');
+  });
+}
+
+export function recordClaudeUsage(usage: {
+  inputTokens: number;
+  outputTokens: number;
+}): void {
+  claudeTokens.inc({ type: 'input' }, usage.inputTokens);
+  claudeTokens.inc({ type: 'output' }, usage.outputTokens);
+}
+
+/**
+ * Register the gauges that are read on scrape. Called once at startup
+ * with the queues and in-process state of this replica.
+ */
+export function registerScrapedMetrics(sources: {
+  queues: Queue[];
+  sseConnections: () => number;
+  whatsappSessions: () => Record<string, number>;
+}): void {
+  new Gauge({
+    name: 'queue_service_queue_jobs',
+    help: 'Jobs per queue and state',
+    labelNames: ['queue', 'state'],
+    registers: [metricsRegistry],
+    async collect() {
+      this.reset();
+      await Promise.all(
+        sources.queues.map(async (queue) => {
+          const counts = await queue.getJobCounts(...JOB_STATES);
+          for (const state of JOB_STATES) {
+            this.set({ queue: queue.name, state }, counts[state] ?? 0);
+          }
+        })
+      );
+    },
+  });
+
+  new Gauge({
+    name: 'queue_service_sse_connections',
+    help: 'Open /notification/ SSE streams on this replica',
+    registers: [metricsRegistry],
+    collect() {
+      this.set(sources.sseConnections());
+    },
+  });
+
+  new Gauge({
+    name: 'queue_service_whatsapp_sessions',
+    help: 'WhatsApp sessions held by this replica, per status',
+    labelNames: ['status'],
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const [status, count] of Object.entries(
+        sources.whatsappSessions()
+      )) {
+        this.set({ status }, count);
+      }
+    },
+  });
+}
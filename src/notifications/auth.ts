@@ -0,0 +1,113 @@
+/**
+ * Signed per-user tokens for the `/notification/` SSE stream.
+ *
+ * The main app issues a short-lived HS256 JWT signed with `AUTH_SECRET`
+ * and hands it to the browser, which passes it either as the `token`
+ * query param (EventSource cannot set headers) or the
+ * `notification_token` cookie. Expected claims:
+ *
+ *   sub             user id
+ *   aud             "notification-stream"
+ *   organizationId  organisation whose notifications may be read
+ *   platformId      platform the organisation belongs to
+ *   role            "ADMIN" | "USER" — matched against the
+ *                   notification's `targetAudience`
+ *   iat / exp       required; tokens older than 15 minutes are rejected
+ *
+ * The stream is scoped to the claims in the token — client-supplied
+ * organisation/platform headers are no longer trusted.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { jwtVerify } from 'jose';
+import { env } from '../env';
+import { createLogger } from '../logger';
+
+const log = createLogger('notifications');
+
+export type NotificationAudience = 'ALL' | 'ADMIN' | 'USER';
+
+export interface NotificationTokenClaims {
+  userId: string;
+  organizationId: string;
+  platformId: string;
+  role: Exclude<NotificationAudience, 'ALL'>;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    notificationClaims?: NotificationTokenClaims;
+  }
+}
+
+export const NOTIFICATION_TOKEN_COOKIE = 'notification_token';
+const TOKEN_AUDIENCE = 'notification-stream';
+const MAX_TOKEN_AGE = '15m';
+
+const secret = new TextEncoder().encode(env.AUTH_SECRET);
+
+export async function verifyNotificationToken(
+  token: string
+): Promise<NotificationTokenClaims> {
+  const { payload } = await jwtVerify(token, secret, {
+    algorithms: ['HS256'],
+    audience: TOKEN_AUDIENCE,
+    maxTokenAge: MAX_TOKEN_AGE,
+    requiredClaims: ['sub', 'exp', 'iat'],
+  });
+
+  const { organizationId, platformId, role } = payload;
+  if (typeof organizationId !== 'string' || typeof platformId !== 'string') {
+    throw new Error('Token is missing organizationId/platformId claims');
+  }
+  if (role !== 'ADMIN' && role !== 'USER') {
+    throw new Error(`Token has invalid role claim: ${String(role)}`);
+  }
+
+  return {
+    userId: payload.sub as string,
+    organizationId,
+    platformId,
+    role,
+  };
+}
+
+/**
+ * Whether a subscriber with `role` should see a notification addressed to
+ * `targetAudience`. Notifications without an audience follow the
+ * `OrganizationNotification.targetAudience` column default (USER).
+ */
+export function isInAudience(
+  role: NotificationTokenClaims['role'],
+  targetAudience: NotificationAudience | undefined
+): boolean {
+  const audience = targetAudience ?? 'USER';
+  return audience === 'ALL' || audience === role;
+}
+
+/**
+ * preHandler for the SSE route. Verifies the token from the query string
+ * or cookie and stores its claims on `request.notificationClaims`.
+ */
+export async function verifyNotificationStreamToken(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const query = request.query as { token?: string } | undefined;
+  const cookies = (
+    request as FastifyRequest & { cookies?: Record<string, string | undefined> }
+  ).cookies;
+  const token = query?.token ?? cookies?.[NOTIFICATION_TOKEN_COOKIE];
+
+  if (!token) {
+    reply.status(401).send({ ok: false, error: 'Missing notification token' });
+    return;
+  }
+
+  try {
+    request.notificationClaims = await verifyNotificationToken(token);
+  } catch (err) {
+    log.warn({ err }, 'Rejected notification stream token');
+    reply.status(401).send({ ok: false, error: 'Unauthorized' });
+  }
+}
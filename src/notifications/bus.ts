@@ -0,0 +1,210 @@
+/**
+ * Redis pub/sub fan-out for organisation notifications and job progress.
+ *
+ * Every replica publishes to and pattern-subscribes on the same channels
+ * (`notificationEvent_<platformId>_<organizationId>` and
+ * `jobProgressEvent_<platformId>_<organizationId>`), so an event emitted
+ * by a worker in one process reaches SSE clients connected to any other
+ * process.
+ *
+ * Messages received from Redis are re-emitted on a process-local
+ * EventEmitter, so each SSE connection only attaches a cheap in-memory
+ * listener instead of opening its own Redis subscription.
+ */
+
+import EventEmitter from 'events';
+import type Redis from 'ioredis';
+import { env } from '../env';
+import { createRedisClient } from '../redis';
+import type { NotificationAudience } from './auth';
+import type { PDVReportProgress } from '../pdv-report/progress';
+import { createLogger } from '../logger';
+
+const log = createLogger('notifications');
+
+export interface NotificationPayload {
+  /**
+   * `OrganizationNotification.id` of the persisted row. Used as the SSE
+   * event id so reconnecting clients can resume via `Last-Event-ID`.
+   */
+  id?: string;
+  notificationTitle: string;
+  notificationDescription: string;
+  refLink?: string;
+  notificationRead: string;
+  /** Who may see this notification; defaults to USER when omitted. */
+  targetAudience?: NotificationAudience;
+  createdAt?: string;
+  organizationId: string;
+  platformId: string;
+}
+
+/** Shape of an `OrganizationNotification` row as read from Prisma. */
+export interface NotificationRow {
+  id: string;
+  notificationTitle: string;
+  notificationDescription: string;
+  refLink: string | null;
+  notificationRead: boolean;
+  targetAudience: NotificationAudience;
+  createdAt: Date;
+  organizationId: string;
+  platformId: string;
+}
+
+/** Progress of a queued job, streamed as the `job-progress` SSE event. */
+export interface JobProgressPayload {
+  queue: string;
+  jobId: string;
+  reportId: string;
+  organizationId: string;
+  platformId: string;
+  progress: PDVReportProgress;
+  updatedAt: string;
+}
+
+const CHANNEL_PREFIX = 'notificationEvent_';
+const JOB_PROGRESS_CHANNEL_PREFIX = 'jobProgressEvent_';
+
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+const localEmitter = new EventEmitter();
+// One listener per channel for each open SSE connection, so several
+// dashboards on one organisation exceed the default cap of 10. The cap
+// stays finite: the registry detaches listeners on close, and going past
+// it means a stream leaked its listener.
+localEmitter.setMaxListeners(env.SSE_MAX_CONNECTIONS_PER_ORGANIZATION);
+
+export function notificationChannel(
+  platformId: string,
+  organizationId: string
+): string {
+  return `${CHANNEL_PREFIX}${platformId}_${organizationId}`;
+}
+
+export function jobProgressChannel(
+  platformId: string,
+  organizationId: string
+): string {
+  return `${JOB_PROGRESS_CHANNEL_PREFIX}${platformId}_${organizationId}`;
+}
+
+export function toNotificationPayload(
+  row: NotificationRow
+): NotificationPayload {
+  return {
+    id: row.id,
+    notificationTitle: row.notificationTitle,
+    notificationDescription: row.notificationDescription,
+    refLink: row.refLink ?? '',
+    notificationRead: String(row.notificationRead),
+    targetAudience: row.targetAudience,
+    createdAt: row.createdAt.toISOString(),
+    organizationId: row.organizationId,
+    platformId: row.platformId,
+  };
+}
+
+function getPublisher(): Redis {
+  if (publisher) return publisher;
+  publisher = createRedisClient();
+  publisher.on('error', (err) => {
+    log.error({ err }, 'Notification publisher Redis error');
+  });
+  return publisher;
+}
+
+function ensureSubscriber(): void {
+  if (subscriber) return;
+
+  subscriber = createRedisClient();
+  subscriber.on('error', (err) => {
+    log.error({ err }, 'Notification subscriber Redis error');
+  });
+  subscriber.on('pmessage', (_pattern: string, channel: string, message) => {
+    try {
+      localEmitter.emit(channel, JSON.parse(message));
+    } catch (err) {
+      log.error({ err }, `Failed to parse event on ${channel}`);
+    }
+  });
+  // ioredis re-subscribes automatically after a reconnect
+  void subscriber.psubscribe(
+    `${CHANNEL_PREFIX}*`,
+    `${JOB_PROGRESS_CHANNEL_PREFIX}*`
+  );
+}
+
+/**
+ * Broadcast a notification to every replica's SSE clients for the
+ * payload's platform and organisation.
+ */
+export async function publishNotification(
+  payload: NotificationPayload
+): Promise<void> {
+  await getPublisher().publish(
+    notificationChannel(payload.platformId, payload.organizationId),
+    JSON.stringify(payload)
+  );
+}
+
+/**
+ * Listen for notifications addressed to one platform/organisation pair.
+ * Returns a function that detaches the listener.
+ */
+export function subscribeToNotifications(
+  platformId: string,
+  organizationId: string,
+  listener: (payload: NotificationPayload) => void
+): () => void {
+  ensureSubscriber();
+
+  const channel = notificationChannel(platformId, organizationId);
+  localEmitter.on(channel, listener);
+  return () => {
+    localEmitter.off(channel, listener);
+  };
+}
+
+/** Broadcast job progress to the SSE clients of the job's organisation. */
+export async function publishJobProgress(
+  payload: JobProgressPayload
+): Promise<void> {
+  await getPublisher().publish(
+    jobProgressChannel(payload.platformId, payload.organizationId),
+    JSON.stringify(payload)
+  );
+}
+
+/**
+ * Listen for job progress for one platform/organisation pair. Returns a
+ * function that detaches the listener.
+ */
+export function subscribeToJobProgress(
+  platformId: string,
+  organizationId: string,
+  listener: (payload: JobProgressPayload) => void
+): () => void {
+  ensureSubscriber();
+
+  const channel = jobProgressChannel(platformId, organizationId);
+  localEmitter.on(channel, listener);
+  return () => {
+    localEmitter.off(channel, listener);
+  };
+}
+
+/** Ping Redis over the publisher connection. Used by the readiness probe. */
+export async function pingNotificationBus(): Promise<void> {
+  await getPublisher().ping();
+}
+
+/** Close the pub/sub Redis clients. Used on shutdown. */
+export async function closeNotificationBus(): Promise<void> {
+  const clients = [publisher, subscriber].filter(
+    (client): client is Redis => client !== null
+  );
+  publisher = null;
+  subscriber = null;
+  await Promise.all(clients.map((client) => client.quit()));
+}
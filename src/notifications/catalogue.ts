@@ -0,0 +1,89 @@
+/**
+ * Catalogue of the organisation notifications this service produces.
+ *
+ * Each event key maps to its title/description templates, the refLink
+ * builder and the audience it targets. Workers and webhooks go through
+ * `notify()` with an event key and its variables instead of writing
+ * notification strings inline, so the DB row and the SSE event always
+ * match.
+ */
+
+import type { NotificationAudience } from './auth';
+
+/**
+ * What happened to the email of a report with failed stages: held for
+ * review, scheduled anyway (PDV_PARTIAL_FAILURE_POLICY=send), or none
+ * could be prepared.
+ */
+export type PartialReportEmail = 'held' | 'scheduled' | 'none';
+
+/** Variables each notification event is rendered with. */
+export interface NotificationVariables {
+  PDV_REPORT_GENERATED: { reportId: string; emailScheduled: boolean };
+  PDV_REPORT_DELIVERED: { reportId: string };
+  PDV_REPORT_NEEDS_REVIEW: {
+    reportId: string;
+    failedStages: string[];
+    email: PartialReportEmail;
+  };
+  PDV_REPORT_EMAIL_BOUNCED: {
+    reportId: string;
+    recipient: string;
+    reason: string;
+  };
+}
+
+export type NotificationEventKey = keyof NotificationVariables;
+
+export interface NotificationTemplate<TVars> {
+  title: (vars: TVars) => string;
+  description: (vars: TVars) => string;
+  refLink: (vars: TVars) => string;
+  targetAudience: NotificationAudience;
+}
+
+// The main app resolves report links from the notification itself, so
+// report events don't carry a refLink yet.
+const noRefLink = () => '';
+
+const partialReportEmailStatus: Record<PartialReportEmail, string> = {
+  held: 'Its email is on hold until an admin approves it.',
+  scheduled: 'Its email was scheduled anyway.',
+  none: 'No email could be prepared, so nothing was sent.',
+};
+
+export const notificationCatalogue: {
+  [K in NotificationEventKey]: NotificationTemplate<NotificationVariables[K]>;
+} = {
+  PDV_REPORT_GENERATED: {
+    title: () => 'PDV Report Generated',
+    description: ({ emailScheduled }) =>
+      emailScheduled
+        ? 'Your PDV report has been generated successfully. Email delivery has been scheduled.'
+        : 'Your PDV report has been generated successfully.',
+    refLink: noRefLink,
+    targetAudience: 'USER',
+  },
+  PDV_REPORT_DELIVERED: {
+    title: () => 'PDV Report Successfully Delivered',
+    description: () => 'PDV report has been delivered to your email',
+    refLink: noRefLink,
+    targetAudience: 'USER',
+  },
+  PDV_REPORT_NEEDS_REVIEW: {
+    title: () => 'PDV Report Needs Review',
+    description: ({ failedStages, email }) =>
+      `A PDV report was generated with failed stages (${failedStages.join(
+        ', '
+      )}). ${partialReportEmailStatus[email]}`,
+    refLink: noRefLink,
+    targetAudience: 'ADMIN',
+  },
+  PDV_REPORT_EMAIL_BOUNCED: {
+    title: () => 'PDV Report Email Bounced',
+    description: ({ recipient, reason }) =>
+      `The PDV report email to ${recipient} could not be delivered: ${reason}`,
+    refLink: noRefLink,
+    targetAudience: 'ALL',
+  },
+};
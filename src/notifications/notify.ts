@@ -0,0 +1,48 @@
+import { db as prismaDb } from '../db';
+import {
+  publishNotification,
+  toNotificationPayload,
+  type NotificationPayload,
+  type NotificationRow,
+} from './bus';
+import {
+  notificationCatalogue,
+  type NotificationEventKey,
+  type NotificationTemplate,
+  type NotificationVariables,
+} from './catalogue';
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+/**
+ * Render a catalogue event, persist it as an `OrganizationNotification`
+ * and broadcast it to every replica's SSE clients. The row is written
+ * first so the SSE event carries its id (used for Last-Event-ID replay).
+ */
+export async function notify<K extends NotificationEventKey>(
+  event: K,
+  target: { organizationId: string; platformId: string },
+  vars: NotificationVariables[K]
+): Promise<NotificationPayload> {
+  const template = notificationCatalogue[event] as NotificationTemplate<
+    NotificationVariables[K]
+  >;
+
+  const row = (await db.organizationNotification.create({
+    data: {
+      notificationTitle: template.title(vars),
+      notificationDescription: template.description(vars),
+      refLink: template.refLink(vars),
+      notificationRead: false,
+      targetAudience: template.targetAudience,
+      organizationId: target.organizationId,
+      platformId: target.platformId,
+    },
+  })) as NotificationRow;
+
+  const payload = toNotificationPayload(row);
+  await publishNotification(payload);
+  return payload;
+}
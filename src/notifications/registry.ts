@@ -0,0 +1,129 @@
+/**
+ * In-process registry of live `/notification/` SSE connections.
+ *
+ * Each connection registers itself together with the cleanup that
+ * detaches its notification listener. `unregister()` runs that cleanup
+ * exactly once, so the listener is removed whether the client went away
+ * or the server closed the stream. Counts are per replica — each
+ * instance only knows about the dashboards attached to it.
+ *
+ * On shutdown `closeAll()` ends every stream with a retry hint, so
+ * browsers reconnect (to another replica, or to this one once it is
+ * back) instead of waiting on a dead socket.
+ */
+
+import { randomUUID } from 'crypto';
+import type { NotificationTokenClaims } from './auth';
+import { createLogger } from '../logger';
+
+const log = createLogger('notifications');
+
+interface SSEConnection {
+  id: string;
+  userId: string;
+  organizationId: string;
+  platformId: string;
+  role: NotificationTokenClaims['role'];
+  connectedAt: Date;
+  detach: () => void;
+  end: (retryMs: number) => Promise<void>;
+}
+
+export interface ConnectionCounts {
+  total: number;
+  byPlatform: Array<{
+    platformId: string;
+    connections: number;
+    organizations: Array<{ organizationId: string; connections: number }>;
+  }>;
+}
+
+class SSEConnectionRegistry {
+  private connections: Map<string, SSEConnection> = new Map();
+
+  /**
+   * Track a new connection. `detach` is called when the connection is
+   * unregistered and should remove every listener the stream attached;
+   * `end` closes the stream from the server side, telling the client to
+   * reconnect after `retryMs`. Returns the connection id to pass to
+   * `unregister()`.
+   */
+  register(
+    claims: NotificationTokenClaims,
+    detach: () => void,
+    end: (retryMs: number) => Promise<void>
+  ): string {
+    const id = randomUUID();
+    this.connections.set(id, {
+      id,
+      userId: claims.userId,
+      organizationId: claims.organizationId,
+      platformId: claims.platformId,
+      role: claims.role,
+      connectedAt: new Date(),
+      detach,
+      end,
+    });
+    return id;
+  }
+
+  unregister(id: string): void {
+    const connection = this.connections.get(id);
+    if (!connection) return;
+
+    this.connections.delete(id);
+    try {
+      connection.detach();
+    } catch (err) {
+      log.error({ err }, `Failed to detach SSE connection ${id}`);
+    }
+  }
+
+  /**
+   * End every open stream with a reconnect hint of `retryMs` and
+   * unregister it. Returns the number of streams closed.
+   */
+  async closeAll(retryMs: number): Promise<number> {
+    const connections = Array.from(this.connections.values());
+    await Promise.all(
+      connections.map(async (connection) => {
+        try {
+          await connection.end(retryMs);
+        } catch (err) {
+          log.error({ err }, `Failed to end SSE connection ${connection.id}`);
+        } finally {
+          this.unregister(connection.id);
+        }
+      })
+    );
+    return connections.length;
+  }
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  counts(): ConnectionCounts {
+    const platforms = new Map<string, Map<string, number>>();
+    for (const { platformId, organizationId } of this.connections.values()) {
+      const orgs = platforms.get(platformId) ?? new Map<string, number>();
+      orgs.set(organizationId, (orgs.get(organizationId) ?? 0) + 1);
+      platforms.set(platformId, orgs);
+    }
+
+    return {
+      total: this.connections.size,
+      byPlatform: Array.from(platforms, ([platformId, orgs]) => ({
+        platformId,
+        connections: Array.from(orgs.values()).reduce((a, b) => a + b, 0),
+        organizations: Array.from(orgs, ([organizationId, connections]) => ({
+          organizationId,
+          connections,
+        })),
+      })),
+    };
+  }
+}
+
+// Singleton instance
+export const sseConnections = new SSEConnectionRegistry();
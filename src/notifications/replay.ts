@@ -0,0 +1,53 @@
+/**
+ * Replay of missed notifications for reconnecting SSE clients.
+ *
+ * Every notification sent on the stream carries its
+ * `OrganizationNotification.id` as the SSE event id. When the browser
+ * reconnects it sends that id back in `Last-Event-ID`, and we replay the
+ * rows written after it. If the id is unknown (e.g. the row was deleted,
+ * or the event came through the relay without a persisted row) we fall
+ * back to replaying every unread notification instead. Only rows whose
+ * `targetAudience` matches the subscriber's role (or ALL) are replayed.
+ */
+
+import { db as prismaDb } from '../db';
+import type { NotificationTokenClaims } from './auth';
+import {
+  toNotificationPayload,
+  type NotificationPayload,
+  type NotificationRow,
+} from './bus';
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+// Cap the replay so a client that was offline for weeks doesn't get flooded
+const REPLAY_LIMIT = 100;
+
+export async function findMissedNotifications(
+  claims: NotificationTokenClaims,
+  lastEventId: string
+): Promise<NotificationPayload[]> {
+  const { platformId, organizationId } = claims;
+
+  const lastSeen = (await db.organizationNotification.findFirst({
+    where: { id: lastEventId, platformId, organizationId },
+    select: { createdAt: true },
+  })) as { createdAt: Date } | null;
+
+  const rows = (await db.organizationNotification.findMany({
+    where: {
+      platformId,
+      organizationId,
+      targetAudience: { in: ['ALL', claims.role] },
+      ...(lastSeen
+        ? { createdAt: { gt: lastSeen.createdAt } }
+        : { notificationRead: false }),
+    },
+    orderBy: { createdAt: 'asc' },
+    take: REPLAY_LIMIT,
+  })) as NotificationRow[];
+
+  return rows.map(toNotificationPayload);
+}
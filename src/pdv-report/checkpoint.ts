@@ -0,0 +1,177 @@
+/**
+ * Per-stage checkpointing for the PDV pipeline.
+ *
+ * Each Claude step of the Pre-PDV generation and each pipeline stage
+ * stores its output on `Report.pdvCheckpoint` as soon as it completes.
+ * When the job is retried (worker crash, stalled job, resubmission after
+ * a failure) the completed steps are reused instead of paying for the
+ * same prompts again. The checkpoint is cleared once a report is saved
+ * with every stage completed.
+ *
+ * A checkpoint only applies to the inputs it was built from: if the
+ * organisation name, PDV answers or prompt versions change, the pipeline
+ * starts fresh.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { db as prismaDb } from '../db';
+import { createLogger } from '../logger';
+import type { CitedText, LLMSource } from './llm/client';
+
+const log = createLogger('pdv-checkpoint');
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export interface PDVCalculationOutput {
+  advReportData: string;
+  lowerADVRange: string;
+  upperADVRange: string;
+}
+
+interface PDVCheckpointStages {
+  /** Final Pre-PDV report JSON */
+  prePDV?: string;
+  /** Supplementary report JSON */
+  supplementary?: string;
+  pdvCalculation?: PDVCalculationOutput;
+}
+
+export interface PDVCheckpointData {
+  fingerprint: string;
+  /** Raw Claude output of each Pre-PDV step (overview, metrics, summary) */
+  prePDVSteps: Record<string, string>;
+  /** Web sources of each Pre-PDV step */
+  prePDVSources: Record<string, LLMSource[]>;
+  stages: PDVCheckpointStages;
+}
+
+/** Value that clears `Report.pdvCheckpoint` in a report update. */
+export const CLEARED_CHECKPOINT = Prisma.DbNull;
+
+interface CheckpointInput {
+  orgName: string;
+  pdvAnswers: Array<{ question: string; answer: string }>;
+  /** Version id of each prompt (see prompts/registry.ts) */
+  promptVersions: Record<string, string>;
+}
+
+const fingerprintOf = (input: CheckpointInput) =>
+  createHash('sha256')
+    .update(
+      JSON.stringify([input.orgName, input.pdvAnswers, input.promptVersions])
+    )
+    .digest('hex');
+
+export class PDVCheckpoint {
+  private constructor(
+    private readonly reportId: string,
+    private readonly data: PDVCheckpointData
+  ) {}
+
+  /** Load the report's checkpoint, or start an empty one. */
+  static async load(
+    reportId: string,
+    input: CheckpointInput
+  ): Promise<PDVCheckpoint> {
+    const fingerprint = fingerprintOf(input);
+    const empty: PDVCheckpointData = {
+      fingerprint,
+      prePDVSteps: {},
+      prePDVSources: {},
+      stages: {},
+    };
+
+    try {
+      const report = (await db.report.findUnique({
+        where: { id: reportId },
+        select: { pdvCheckpoint: true },
+      })) as { pdvCheckpoint: PDVCheckpointData | null } | null;
+
+      const saved = report?.pdvCheckpoint;
+      if (saved && saved.fingerprint === fingerprint) {
+        const steps = Object.keys(saved.prePDVSteps ?? {});
+        const stages = Object.keys(saved.stages ?? {});
+        log.info(
+          `Resuming report ${reportId} from checkpoint (steps: ${
+            steps.join(', ') || 'none'
+          }; stages: ${stages.join(', ') || 'none'})`
+        );
+        return new PDVCheckpoint(reportId, {
+          ...empty,
+          prePDVSteps: saved.prePDVSteps ?? {},
+          prePDVSources: saved.prePDVSources ?? {},
+          stages: saved.stages ?? {},
+        });
+      }
+    } catch (err) {
+      log.warn({ err }, `Could not load checkpoint for report ${reportId}`);
+    }
+
+    return new PDVCheckpoint(reportId, empty);
+  }
+
+  /** Run one Pre-PDV Claude step, or reuse its saved output. */
+  async step(key: string, run: () => Promise<CitedText>): Promise<CitedText> {
+    const saved = this.data.prePDVSteps[key];
+    if (saved !== undefined) {
+      log.info(`Reusing Pre-PDV step "${key}"`);
+      return { text: saved, sources: this.data.prePDVSources[key] ?? [] };
+    }
+
+    const output = await run();
+    this.data.prePDVSteps[key] = output.text;
+    this.data.prePDVSources[key] = output.sources;
+    await this.save();
+    return output;
+  }
+
+  /**
+   * Run a pipeline stage, or reuse its saved output. Stages that produce
+   * nothing (null or an empty string) are not checkpointed and run again
+   * on retry.
+   */
+  async stage<K extends keyof PDVCheckpointStages>(
+    key: K,
+    run: () => Promise<PDVCheckpointStages[K] | null>
+  ): Promise<PDVCheckpointStages[K] | null> {
+    const saved = this.data.stages[key];
+    if (saved !== undefined) {
+      log.info(`Reusing stage "${key}"`);
+      return saved;
+    }
+
+    const output = await run();
+    if (output) {
+      this.data.stages[key] = output;
+      await this.save();
+    }
+    return output;
+  }
+
+  // Pre-PDV steps run concurrently, so writes are queued: each one stores
+  // the data as of when it runs and can't be overtaken by an older write
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  private save(): Promise<void> {
+    this.pendingSave = this.pendingSave.then(() => this.write());
+    return this.pendingSave;
+  }
+
+  // A failed write only costs a re-run on retry, so it never fails the job
+  private async write(): Promise<void> {
+    try {
+      await db.report.update({
+        where: { id: this.reportId },
+        data: { pdvCheckpoint: this.data },
+      });
+    } catch (err) {
+      log.warn(
+        { err },
+        `Could not save checkpoint for report ${this.reportId}`
+      );
+    }
+  }
+}
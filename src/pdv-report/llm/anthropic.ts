@@ -0,0 +1,171 @@
+import Anthropic, { APIConnectionError, APIError } from '@anthropic-ai/sdk';
+import { env } from '../../env';
+import { createLogger } from '../../logger';
+import type { LLMClient, LLMRequest, LLMResponse, LLMSource } from './client';
+
+const log = createLogger('llm');
+
+// Rate limited (429), overloaded (529) and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+const isRetryable = (error: unknown): error is APIError =>
+  error instanceof APIConnectionError ||
+  (error instanceof APIError && RETRYABLE_STATUSES.has(error.status ?? 0));
+
+// Delay the API asked for, from retry-after-ms or retry-after (seconds or
+// an HTTP date)
+function retryAfterMs(headers: Headers | undefined): number | null {
+  const ms = Number(headers?.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const retryAfter = headers?.get('retry-after');
+  if (!retryAfter) return null;
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Pages returned by the web search tool, with the passages that the text
+// blocks' citations quote from each
+function collectSources(content: Anthropic.ContentBlock[]): LLMSource[] {
+  const sources = new Map<string, LLMSource>();
+  const sourceFor = (url: string, title: string | null) => {
+    let source = sources.get(url);
+    if (!source) {
+      source = { url, title, citedText: [] };
+      sources.set(url, source);
+    }
+    source.title ??= title;
+    return source;
+  };
+
+  for (const block of content) {
+    if (block.type === 'web_search_tool_result') {
+      // An error result has no pages
+      if (Array.isArray(block.content)) {
+        block.content.forEach((result) => sourceFor(result.url, result.title));
+      }
+    } else if (block.type === 'text') {
+      for (const citation of block.citations ?? []) {
+        if (citation.type !== 'web_search_result_location') continue;
+        const source = sourceFor(citation.url, citation.title);
+        if (!source.citedText.includes(citation.cited_text)) {
+          source.citedText.push(citation.cited_text);
+        }
+      }
+    }
+  }
+  return [...sources.values()];
+}
+
+export class AnthropicLLMClient implements LLMClient {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+  // When a request is rate limited every call waits until then, not just
+  // the one that got the 429, so concurrent prompts back off together
+  private resumeAt = 0;
+
+  constructor() {
+    if (!env.ANTHROPIC_API_KEY) {
+      throw new Error(
+        'ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic'
+      );
+    }
+    // Retries are handled in complete(), which also honours rate limits
+    // across concurrent calls
+    this.client = new Anthropic({
+      apiKey: env.ANTHROPIC_API_KEY,
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const wait = this.resumeAt - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+
+      try {
+        return await this.send(request);
+      } catch (error) {
+        if (!isRetryable(error) || attempt > env.LLM_MAX_RETRIES) throw error;
+
+        const backoff = Math.min(
+          MAX_BACKOFF_MS,
+          BASE_BACKOFF_MS * 2 ** (attempt - 1)
+        );
+        const delay =
+          retryAfterMs(error.headers) ?? backoff * (0.5 + Math.random() / 2);
+        log.warn(
+          {
+            metric: request.metricName,
+            status: error.status,
+            attempt,
+            delayMs: Math.round(delay),
+          },
+          'LLM request failed, retrying'
+        );
+
+        if (error.status === 429) {
+          this.resumeAt = Math.max(this.resumeAt, Date.now() + delay);
+        } else {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+  }
+
+  isTransientError(error: unknown): boolean {
+    return isRetryable(error);
+  }
+
+  private async send(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+      ...(request.webSearchMaxUses > 0 && {
+        tools: [
+          {
+            type: 'web_search_20250305',
+            name: 'web_search',
+            max_uses: request.webSearchMaxUses,
+          },
+        ],
+      }),
+    });
+
+    // Log the web searches Claude ran, for debugging
+    message.content.forEach((block, index) => {
+      if (block.type === 'tool_use' || block.type === 'server_tool_use') {
+        log.debug(
+          { metric: request.metricName, index, tool: block },
+          'Claude tool use'
+        );
+      }
+    });
+
+    // IMPORTANT: Concatenate ALL text blocks, not just the first one!
+    // When using web_search, Claude returns multiple text blocks spread across the response
+    const text = message.content
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      text,
+      sources: collectSources(message.content),
+      model: message.model,
+      stopReason: message.stop_reason,
+      contentBlocks: message.content.length,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        webSearchRequests:
+          message.usage.server_tool_use?.web_search_requests ?? 0,
+      },
+    };
+  }
+}
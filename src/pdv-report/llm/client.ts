@@ -0,0 +1,95 @@
+/**
+ * LLM client used by the PDV pipeline.
+ *
+ * The pipeline talks to an `LLMClient` rather than a provider SDK, so the
+ * backend is picked by LLM_PROVIDER:
+ *
+ *   anthropic → Anthropic Messages API (production)
+ *   fixture   → replays recorded responses from LLM_FIXTURE_DIR, so the
+ *               whole pipeline runs offline and deterministically (CI)
+ *
+ * With LLM_FIXTURE_RECORD=true the anthropic backend also writes every
+ * response to LLM_FIXTURE_DIR, which is how fixtures are refreshed.
+ */
+
+import { env } from '../../env';
+import { createLogger } from '../../logger';
+import { AnthropicLLMClient } from './anthropic';
+import { FixtureLLMClient, RecordingLLMClient } from './fixture';
+
+const log = createLogger('llm');
+
+export interface LLMRequest {
+  /** Pipeline step making the call; also names its fixture */
+  metricName: string;
+  model: string;
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  /** Maximum web searches per call; 0 disables the web search tool */
+  webSearchMaxUses: number;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+}
+
+/** A web page found by the web search tool */
+export interface LLMSource {
+  url: string;
+  title: string | null;
+  /** Passages of the page that citations in the response quote */
+  citedText: string[];
+}
+
+/** Response text with the web sources it was based on */
+export interface CitedText {
+  text: string;
+  sources: LLMSource[];
+}
+
+export interface LLMResponse {
+  /** All text blocks of the response, concatenated */
+  text: string;
+  /** Every page the web searches returned, in order of first appearance */
+  sources: LLMSource[];
+  /** Model that actually answered (as reported by the provider) */
+  model: string;
+  stopReason: string | null;
+  usage: LLMUsage;
+  /** Number of content blocks, including tool use and results */
+  contentBlocks: number;
+}
+
+export interface LLMClient {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * Whether a failed call may succeed later (provider rate limited,
+   * overloaded or unreachable). The PDV worker fails the job on these so
+   * BullMQ retries it from the checkpoint.
+   */
+  isTransientError(error: unknown): boolean;
+}
+
+let cachedClient: LLMClient | null = null;
+
+export function getLLMClient(): LLMClient {
+  if (cachedClient) return cachedClient;
+
+  switch (env.LLM_PROVIDER) {
+    case 'fixture':
+      cachedClient = new FixtureLLMClient(env.LLM_FIXTURE_DIR);
+      break;
+    default:
+      cachedClient = new AnthropicLLMClient();
+  }
+  if (env.LLM_FIXTURE_RECORD && env.LLM_PROVIDER !== 'fixture') {
+    cachedClient = new RecordingLLMClient(cachedClient, env.LLM_FIXTURE_DIR);
+  }
+
+  log.info(`LLM client: ${cachedClient.name}`);
+  return cachedClient;
+}
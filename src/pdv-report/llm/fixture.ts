@@ -0,0 +1,125 @@
+/**
+ * Fixture LLM backends.
+ *
+ * `fixture` replays a recorded response per pipeline step from
+ * `<LLM_FIXTURE_DIR>/<metric-name>.json` (e.g. `data-reliance.json`),
+ * whatever the prompt, so a report can be generated end-to-end without
+ * network access and always produces the same output. A step without a
+ * fixture fails like an API error would.
+ *
+ * `RecordingLLMClient` wraps a real backend and writes each response in
+ * the same format, to create or refresh fixtures.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createLogger } from '../../logger';
+import type {
+  LLMClient,
+  LLMRequest,
+  LLMResponse,
+  LLMSource,
+  LLMUsage,
+} from './client';
+
+const log = createLogger('llm');
+
+interface LLMFixture {
+  metricName: string;
+  model: string;
+  text: string;
+  sources?: LLMSource[];
+  stopReason?: string | null;
+  usage?: Partial<LLMUsage>;
+}
+
+/** "Data Summary JSON" → "data-summary-json" */
+export const fixtureName = (metricName: string): string =>
+  metricName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+export class FixtureLLMClient implements LLMClient {
+  readonly name = 'fixture';
+
+  constructor(private readonly directory: string) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const file = path.join(
+      this.directory,
+      `${fixtureName(request.metricName)}.json`
+    );
+
+    let fixture: LLMFixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8')) as LLMFixture;
+    } catch (err) {
+      throw new Error(
+        `No usable LLM fixture for "${request.metricName}" at ${file}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+
+    return {
+      text: fixture.text,
+      sources: fixture.sources ?? [],
+      model: fixture.model,
+      stopReason: fixture.stopReason ?? 'end_turn',
+      contentBlocks: 1,
+      usage: {
+        inputTokens: fixture.usage?.inputTokens ?? 0,
+        outputTokens: fixture.usage?.outputTokens ?? 0,
+        webSearchRequests: fixture.usage?.webSearchRequests ?? 0,
+      },
+    };
+  }
+
+  // A missing or broken fixture won't fix itself
+  isTransientError(): boolean {
+    return false;
+  }
+}
+
+export class RecordingLLMClient implements LLMClient {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: LLMClient,
+    private readonly directory: string
+  ) {
+    this.name = `${inner.name} (recording)`;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    const fixture: LLMFixture = {
+      metricName: request.metricName,
+      model: response.model,
+      text: response.text,
+      sources: response.sources,
+      stopReason: response.stopReason,
+      usage: response.usage,
+    };
+
+    // A failed write only loses the fixture, never the response
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(
+        path.join(this.directory, `${fixtureName(request.metricName)}.json`),
+        `${JSON.stringify(fixture, null, 2)}\n`
+      );
+    } catch (err) {
+      log.warn(
+        { err },
+        `Could not record LLM fixture for ${request.metricName}`
+      );
+    }
+    return response;
+  }
+
+  isTransientError(error: unknown): boolean {
+    return this.inner.isTransientError(error);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Model settings for a PDV pipeline call.
+ *
+ * Each setting is resolved separately, first match wins:
+ *   1. the prompt version's own setting, when a stored version sets one
+ *      (`POST /prompts/:key/versions`)
+ *   2. `PlatformADVSetting.llmModel` / `llmMaxTokens` / `llmWebSearchMaxUses`
+ *      for the report's platform
+ *   3. the built-in prompt's default (`maxTokens` in prompts/templates.ts)
+ *   4. LLM_MODEL / LLM_MAX_TOKENS / LLM_WEB_SEARCH_MAX_USES
+ */
+
+import { env } from '../../env';
+import { db as prismaDb } from '../../db';
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export interface LLMSettings {
+  model: string;
+  maxTokens: number;
+  /** 0 disables the web search tool */
+  webSearchMaxUses: number;
+}
+
+export type LLMSettingOverrides = Partial<LLMSettings>;
+
+/** Settings of a report that apply to every prompt. */
+export interface ReportLLMSettings {
+  /** Set on the platform's `PlatformADVSetting` */
+  platform: LLMSettingOverrides;
+  /** LLM_MODEL / LLM_MAX_TOKENS / LLM_WEB_SEARCH_MAX_USES */
+  defaults: LLMSettings;
+}
+
+export async function resolvePlatformLLMSettings(
+  platformId: string | null | undefined
+): Promise<ReportLLMSettings> {
+  const setting = platformId
+    ? ((await db.platformADVSetting.findUnique({
+        where: { platformId },
+        select: {
+          llmModel: true,
+          llmMaxTokens: true,
+          llmWebSearchMaxUses: true,
+        },
+      })) as {
+        llmModel: string | null;
+        llmMaxTokens: number | null;
+        llmWebSearchMaxUses: number | null;
+      } | null)
+    : null;
+
+  return {
+    platform: {
+      model: setting?.llmModel || undefined,
+      maxTokens: setting?.llmMaxTokens ?? undefined,
+      webSearchMaxUses: setting?.llmWebSearchMaxUses ?? undefined,
+    },
+    defaults: {
+      model: env.LLM_MODEL,
+      maxTokens: env.LLM_MAX_TOKENS,
+      webSearchMaxUses: env.LLM_WEB_SEARCH_MAX_USES,
+    },
+  };
+}
+
+/**
+ * Settings for one prompt: `overrides` are the prompt version's own
+ * settings, `promptDefaults` the built-in prompt's, which the platform's
+ * settings take precedence over.
+ */
+export function resolveLLMSettings(
+  report: ReportLLMSettings,
+  overrides: LLMSettingOverrides = {},
+  promptDefaults: LLMSettingOverrides = {}
+): LLMSettings {
+  const resolve = <K extends keyof LLMSettings>(key: K): LLMSettings[K] =>
+    overrides[key] ??
+    report.platform[key] ??
+    promptDefaults[key] ??
+    report.defaults[key];
+
+  return {
+    model: resolve('model'),
+    maxTokens: resolve('maxTokens'),
+    webSearchMaxUses: resolve('webSearchMaxUses'),
+  };
+}
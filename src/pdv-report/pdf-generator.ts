@@ -11,6 +11,10 @@ import {
 } from 'chart.js';
 import { addGeistFont } from './geist-font-loader';
 import { ONE2B_LOGO_BASE64 } from './logo-base64';
+import { createLogger } from '../logger';
+import type { LLMSource } from './llm/client';
+
+const log = createLogger('pdf-generator');
 
 // Register Chart.js components
 Chart.register(
@@ -63,7 +67,7 @@ function ensureFontRegistered(): string {
 
     // Try to find and register local Geist fonts
     for (const basePath of possibleBasePaths) {
-      console.log(`🔍 [PDF-Generator] Checking font path: ${basePath}`);
+      log.debug(`Checking font path: ${basePath}`);
       if (fs.existsSync(basePath)) {
         let fontsRegistered = 0;
         for (const { file, family, weight } of localFontFiles) {
@@ -71,32 +75,27 @@ function ensureFontRegistered(): string {
           try {
             if (fs.existsSync(fontPath)) {
               registerFont(fontPath, { family: 'ChartFont', weight });
-              console.log(
-                `✅ [PDF-Generator] Registered local font "${family} ${weight}" from: ${fontPath}`
+              log.info(
+                `Registered local font "${family} ${weight}" from: ${fontPath}`
               );
               fontsRegistered++;
             }
           } catch (err) {
-            console.log(
-              `⚠️ [PDF-Generator] Failed to register font from ${fontPath}:`,
-              err
-            );
+            log.warn({ err }, `Failed to register font from ${fontPath}`);
           }
         }
         if (fontsRegistered > 0) {
           fontRegistered = true;
           registeredFontFamily = 'ChartFont';
-          console.log(
-            `✅ [PDF-Generator] Successfully registered ${fontsRegistered} Geist font variants`
+          log.info(
+            `Successfully registered ${fontsRegistered} Geist font variants`
           );
           return registeredFontFamily;
         }
       }
     }
 
-    console.warn(
-      '⚠️ [PDF-Generator] Local Geist fonts not found, trying system fonts...'
-    );
+    log.warn('Local Geist fonts not found, trying system fonts...');
 
     // Fallback to system fonts
     const systemFontPaths = [
@@ -130,27 +129,20 @@ function ensureFontRegistered(): string {
       try {
         if (fs.existsSync(fontPath)) {
           registerFont(fontPath, { family: 'ChartFont' });
-          console.log(
-            `✅ [PDF-Generator] Registered system font "${family}" from: ${fontPath}`
-          );
+          log.info(`Registered system font "${family}" from: ${fontPath}`);
           fontRegistered = true;
           registeredFontFamily = 'ChartFont';
           return registeredFontFamily;
         }
       } catch (err) {
-        console.log(
-          `⚠️ [PDF-Generator] Failed to register font from ${fontPath}:`,
-          err
-        );
+        log.warn({ err }, `Failed to register font from ${fontPath}`);
         continue;
       }
     }
 
-    console.warn(
-      '⚠️ [PDF-Generator] No suitable font found. Chart text may not render correctly.'
-    );
+    log.warn('No suitable font found. Chart text may not render correctly.');
   } catch (err) {
-    console.error('❌ [PDF-Generator] Error during font registration:', err);
+    log.error({ err }, 'Error during font registration');
   }
 
   fontRegistered = true; // Mark as attempted to avoid repeated tries
@@ -159,7 +151,7 @@ function ensureFontRegistered(): string {
 
 // Get the font family to use for charts
 const chartFontFamily = ensureFontRegistered();
-console.log(`📝 [PDF-Generator] Using chart font family: ${chartFontFamily}`);
+log.info(`Using chart font family: ${chartFontFamily}`);
 
 // Set global default font for Chart.js
 Chart.defaults.font.family = chartFontFamily;
@@ -403,6 +395,43 @@ function drawTocEntries(
   });
 }
 
+/** A web source of the report, cited in the Sources appendix */
+interface SourceReference extends LLMSource {
+  /** Report sections that drew on the page */
+  sections: string[];
+}
+
+/** Merge the sources of each report section, one reference per URL */
+function collectReferences(
+  ...reportSources: Array<Record<string, LLMSource[]> | undefined>
+): SourceReference[] {
+  const references = new Map<string, SourceReference>();
+  reportSources.forEach((sections) => {
+    Object.entries(sections ?? {}).forEach(([section, sources]) => {
+      sources.forEach((source) => {
+        const reference = references.get(source.url) ?? {
+          url: source.url,
+          title: source.title,
+          citedText: [],
+          sections: [],
+        };
+        references.set(source.url, reference);
+
+        reference.title ??= source.title;
+        source.citedText.forEach((text) => {
+          if (!reference.citedText.includes(text)) {
+            reference.citedText.push(text);
+          }
+        });
+        if (!reference.sections.includes(section)) {
+          reference.sections.push(section);
+        }
+      });
+    });
+  });
+  return [...references.values()];
+}
+
 /** Add a blue end page */
 function addBlueEndPage(doc: jsPDF): void {
   doc.addPage();
@@ -418,6 +447,8 @@ interface PreADVData {
   dataScarcity: string;
   dataOwnership: string;
   dataCollection: string;
+  /** Web sources of each section, by section title */
+  sources?: Record<string, LLMSource[]>;
   summary: {
     summary: string;
     competitiveAdvantages: string[];
@@ -445,6 +476,8 @@ interface SupplementaryData {
     competitor5Value?: string;
   }>;
   qualitativeComparison: string;
+  /** Web sources of each section, by section title */
+  sources?: Record<string, LLMSource[]>;
   radarChartData: {
     categories?: string[];
     'data metrics'?: string[];
@@ -808,8 +841,8 @@ export async function generateSupplementaryPDFClient(
   // Generate Radar Chart (on same page, below table)
   yPos += 30; // gap between table and chart
   try {
-    console.log('📊 [PDF-Generator] Starting radar chart generation...');
-    console.log('📊 [PDF-Generator] Using font family:', chartFontFamily);
+    log.info('Starting radar chart generation...');
+    log.info({ chartFontFamily }, 'Using font family');
 
     const canvas = createCanvas(600, 600);
 
@@ -824,7 +857,7 @@ export async function generateSupplementaryPDFClient(
         'Data Ownership',
       ];
 
-    console.log('📊 [PDF-Generator] Chart categories:', categories);
+    log.info({ categories }, 'Chart categories');
 
     // Validate and sanitize chart data values - ensure they're valid numbers
     const sanitizeValues = (
@@ -832,7 +865,7 @@ export async function generateSupplementaryPDFClient(
       expectedLength: number
     ): number[] => {
       if (!values || !Array.isArray(values) || values.length === 0) {
-        console.warn('⚠️ [PDF-Generator] Missing chart values, using defaults');
+        log.warn('Missing chart values, using defaults');
         return Array(expectedLength).fill(50);
       }
       return values.map((v) => {
@@ -848,7 +881,7 @@ export async function generateSupplementaryPDFClient(
       categories.length
     );
 
-    console.log('📊 [PDF-Generator] Organization values:', orgValues);
+    log.info({ orgValues }, 'Organization values');
 
     // Build datasets dynamically based on data format
     const datasets: Array<{
@@ -893,14 +926,14 @@ export async function generateSupplementaryPDFClient(
           pointBorderColor: '#fff',
         });
       });
-      console.log('📊 [PDF-Generator] Competitor datasets:', data.competitors);
+      log.info({ competitors: data.competitors }, 'Competitor datasets');
     } else {
       // Legacy format: sector average
       const sectorValues = sanitizeValues(
         data.radarChartData.sectorValues,
         categories.length
       );
-      console.log('📊 [PDF-Generator] Sector values:', sectorValues);
+      log.info({ sectorValues }, 'Sector values');
       datasets.push({
         label: data.sectorName ?? 'Sector Average',
         data: sectorValues,
@@ -958,7 +991,7 @@ export async function generateSupplementaryPDFClient(
     chart.draw();
     chart.update('none');
 
-    console.log('📊 [PDF-Generator] Chart rendered, waiting for completion...');
+    log.info('Chart rendered, waiting for completion...');
 
     // Shorter timeout - chart.js with animation disabled should render immediately
     await new Promise((resolve) => setTimeout(resolve, 100));
@@ -966,12 +999,8 @@ export async function generateSupplementaryPDFClient(
     // Get image data from canvas with maximum quality
     const chartImage = canvas.toDataURL('image/png', 1.0);
 
-    console.log(
-      `📊 [PDF-Generator] Chart image generated, length: ${chartImage.length} bytes`
-    );
-    console.log(
-      `📊 [PDF-Generator] Chart image prefix: ${chartImage.substring(0, 50)}...`
-    );
+    log.info(`Chart image generated, length: ${chartImage.length} bytes`);
+    log.info(`Chart image prefix: ${chartImage.substring(0, 50)}...`);
 
     // Verify the image was generated correctly
     if (!chartImage || chartImage === 'data:,' || chartImage.length < 1000) {
@@ -988,9 +1017,9 @@ export async function generateSupplementaryPDFClient(
     // Add image with proper error handling
     try {
       doc.addImage(chartImage, 'PNG', 150, yPos, 450, 450);
-      console.log('✅ [PDF-Generator] Chart image added to PDF successfully');
+      log.info('Chart image added to PDF successfully');
     } catch (imgError) {
-      console.error('❌ [PDF-Generator] Error adding image to PDF:', imgError);
+      log.error({ err: imgError }, 'Error adding image to PDF');
       doc.setFontSize(11);
       doc.setFont('Geist', 'normal');
       doc.setTextColor(...MUTED_BLUE);
@@ -1005,7 +1034,7 @@ export async function generateSupplementaryPDFClient(
     chart.destroy();
     // canvas.remove() is not available in Node.js (node-canvas)
   } catch (error) {
-    console.error('❌ [PDF-Generator] Error generating radar chart:', error);
+    log.error({ err: error }, 'Error generating radar chart');
     // Continue with PDF generation even if chart fails
   }
 
@@ -1948,10 +1977,8 @@ export async function generateUnifiedADVPDFClient(
 
     // Generate Radar Chart
     try {
-      console.log(
-        '📊 [PDF-Generator] Starting unified PDF radar chart generation...'
-      );
-      console.log('📊 [PDF-Generator] Using font family:', chartFontFamily);
+      log.info('Starting unified PDF radar chart generation...');
+      log.info({ chartFontFamily }, 'Using font family');
 
       const canvas = createCanvas(600, 600);
 
@@ -1966,7 +1993,7 @@ export async function generateUnifiedADVPDFClient(
           'Data Ownership',
         ];
 
-      console.log('📊 [PDF-Generator] Chart categories:', categories);
+      log.info({ categories }, 'Chart categories');
 
       // Validate and sanitize chart data values - ensure they're valid numbers
       const sanitizeChartValues = (
@@ -1974,9 +2001,7 @@ export async function generateUnifiedADVPDFClient(
         expectedLength: number
       ): number[] => {
         if (!values || !Array.isArray(values) || values.length === 0) {
-          console.warn(
-            '⚠️ [PDF-Generator] Missing chart values, using defaults'
-          );
+          log.warn('Missing chart values, using defaults');
           return Array(expectedLength).fill(50);
         }
         return values.map((v) => {
@@ -1992,7 +2017,7 @@ export async function generateUnifiedADVPDFClient(
         categories.length
       );
 
-      console.log('📊 [PDF-Generator] Organization values:', orgChartValues);
+      log.info({ orgChartValues }, 'Organization values');
 
       // Build datasets dynamically based on data format
       const unifiedDatasets: Array<{
@@ -2036,16 +2061,16 @@ export async function generateUnifiedADVPDFClient(
             pointBorderColor: '#fff',
           });
         });
-        console.log(
-          '📊 [PDF-Generator] Unified competitor datasets:',
-          supplementaryData.competitors
+        log.info(
+          { competitors: supplementaryData.competitors },
+          'Unified competitor datasets'
         );
       } else {
         const sectorChartValues = sanitizeChartValues(
           supplementaryData.radarChartData.sectorValues,
           categories.length
         );
-        console.log('📊 [PDF-Generator] Sector values:', sectorChartValues);
+        log.info({ sectorChartValues }, 'Sector values');
         unifiedDatasets.push({
           label: supplementaryData.sectorName ?? 'Sector Average',
           data: sectorChartValues,
@@ -2103,9 +2128,7 @@ export async function generateUnifiedADVPDFClient(
       chart.draw();
       chart.update('none');
 
-      console.log(
-        '📊 [PDF-Generator] Unified chart rendered, waiting for completion...'
-      );
+      log.info('Unified chart rendered, waiting for completion...');
 
       // Shorter timeout - chart.js with animation disabled should render immediately
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -2113,15 +2136,10 @@ export async function generateUnifiedADVPDFClient(
       // Get image data from canvas with maximum quality
       const chartImage = canvas.toDataURL('image/png', 1.0);
 
-      console.log(
-        `📊 [PDF-Generator] Unified chart image generated, length: ${chartImage.length} bytes`
-      );
-      console.log(
-        `📊 [PDF-Generator] Unified chart image prefix: ${chartImage.substring(
-          0,
-          50
-        )}...`
+      log.info(
+        `Unified chart image generated, length: ${chartImage.length} bytes`
       );
+      log.info(`Unified chart image prefix: ${chartImage.substring(0, 50)}...`);
 
       // Verify the image was generated correctly
       if (!chartImage || chartImage === 'data:,' || chartImage.length < 1000) {
@@ -2139,14 +2157,9 @@ export async function generateUnifiedADVPDFClient(
       // Add image with proper error handling
       try {
         doc.addImage(chartImage, 'PNG', 150, yPos, 450, 450);
-        console.log(
-          '✅ [PDF-Generator] Unified chart image added to PDF successfully'
-        );
+        log.info('Unified chart image added to PDF successfully');
       } catch (imgError) {
-        console.error(
-          '❌ [PDF-Generator] Error adding image to PDF:',
-          imgError
-        );
+        log.error({ err: imgError }, 'Error adding image to PDF');
         // Add text instead if image fails
         doc.setFontSize(11);
         doc.setFont('Geist', 'normal');
@@ -2162,10 +2175,7 @@ export async function generateUnifiedADVPDFClient(
       chart.destroy();
       // canvas.remove();
     } catch (error) {
-      console.error(
-        '❌ [PDF-Generator] Error generating unified radar chart:',
-        error
-      );
+      log.error({ err: error }, 'Error generating unified radar chart');
       // Continue with PDF generation even if chart fails
     }
 
@@ -2294,6 +2304,92 @@ export async function generateUnifiedADVPDFClient(
     addSection('Summary', preADVData.summary.summary);
   }
 
+  // Sources: the web pages the analysis drew on, numbered in order of
+  // first use
+  const references = collectReferences(
+    preADVData?.sources,
+    supplementaryData?.sources
+  );
+  if (references.length > 0) {
+    doc.addPage();
+    addPdvPageHeader(doc, orgName);
+    unifiedTocEntries.push({
+      title: 'Sources',
+      page: doc.getCurrentPageInfo().pageNumber,
+    });
+    yPos = MARGIN_PX + 30;
+
+    drawHeaderBar(doc, yPos, 60);
+    yPos += 5;
+    yPos = drawSectionBadge(doc, String(sectionNumber), 'Sources', yPos);
+
+    const indentX = MARGIN_PX + 37.8; // 10mm
+    const textWidth = CONTENT_WIDTH_PX - 37.8;
+    const drawLines = (lines: string[]) =>
+      lines.forEach((line) => {
+        doc.text(line, indentX, yPos);
+        yPos += 18.9; // 5mm
+      });
+
+    references.forEach((reference, index) => {
+      doc.setFontSize(10);
+      doc.setFont('Geist', 'bold');
+      const titleLines: string[] = doc.splitTextToSize(
+        reference.title ?? reference.url,
+        textWidth
+      );
+      doc.setFont('Geist', 'normal');
+      const urlLines: string[] = doc.splitTextToSize(reference.url, textWidth);
+      doc.setFontSize(9);
+      const usedInLines: string[] = doc.splitTextToSize(
+        `Used in: ${reference.sections.join(', ')}`,
+        textWidth
+      );
+      const quote = reference.citedText[0];
+      const quoteLines: string[] = quote
+        ? doc.splitTextToSize(
+            `"${quote.length > 300 ? `${quote.slice(0, 300)}...` : quote}"`,
+            textWidth
+          )
+        : [];
+
+      // Keep each reference on one page
+      const height =
+        (titleLines.length +
+          urlLines.length +
+          usedInLines.length +
+          quoteLines.length) *
+          18.9 +
+        15.1; // 5mm lines, 4mm gap
+      if (yPos + height > 1058.4) {
+        // 280mm
+        doc.addPage();
+        addPdvPageHeader(doc, orgName);
+        yPos = MARGIN_PX + 30;
+      }
+
+      doc.setFontSize(10);
+      doc.setFont('Geist', 'bold');
+      doc.setTextColor(...BRAND_BLUE);
+      doc.text(`[${index + 1}]`, MARGIN_PX, yPos);
+      drawLines(titleLines);
+
+      doc.setFont('Geist', 'normal');
+      doc.setTextColor(...ACCENT_BLUE);
+      urlLines.forEach((line) => {
+        doc.textWithLink(line, indentX, yPos, { url: reference.url });
+        yPos += 18.9;
+      });
+
+      doc.setFontSize(9);
+      doc.setTextColor(...TEXT_GRAY);
+      drawLines(usedInLines);
+      drawLines(quoteLines);
+
+      yPos += 15.1; // 4mm
+    });
+  }
+
   // ============ BLUE END PAGE ============
   addBlueEndPage(doc);
 
@@ -0,0 +1,100 @@
+/**
+ * Progress reporting for PDV report jobs.
+ *
+ * `processPDVReportJob()` reports each stage through a ProgressReporter.
+ * The queue processor's reporter stores it with `job.updateProgress()`
+ * (read back by `GET /jobs/:queue/:jobId`) and publishes it as a
+ * `job-progress` event on the organisation's SSE stream.
+ */
+
+import type { Job } from 'bullmq';
+import { publishJobProgress } from '../notifications/bus';
+import { createLogger } from '../logger';
+
+const log = createLogger('pdv-progress');
+
+export type PDVReportStage =
+  | 'PRE_PDV'
+  | 'SUPPLEMENTARY'
+  | 'PDV_CALCULATION'
+  | 'PDF'
+  | 'DB_UPDATE'
+  | 'EMAIL_SCHEDULING'
+  | 'COMPLETED';
+
+export interface PDVReportProgress {
+  stage: PDVReportStage;
+  /** 0–100, monotonic over the life of the job */
+  percent: number;
+  message: string;
+  /** Sub-step within the stage (the Pre-PDV stage runs 8 Claude steps) */
+  step?: number;
+  totalSteps?: number;
+}
+
+export type ProgressReporter = (
+  stage: PDVReportStage,
+  message: string,
+  step?: { current: number; total: number }
+) => Promise<void>;
+
+// Share of the progress bar each stage covers, weighted by how long it
+// usually takes — the Pre-PDV stage's Claude calls dominate.
+const STAGE_RANGES: Record<PDVReportStage, [number, number]> = {
+  PRE_PDV: [0, 55],
+  SUPPLEMENTARY: [55, 70],
+  PDV_CALCULATION: [70, 80],
+  PDF: [80, 90],
+  DB_UPDATE: [90, 95],
+  EMAIL_SCHEDULING: [95, 100],
+  COMPLETED: [100, 100],
+};
+
+export function pdvReportProgress(
+  stage: PDVReportStage,
+  message: string,
+  step?: { current: number; total: number }
+): PDVReportProgress {
+  const [start, end] = STAGE_RANGES[stage];
+  const percent = step
+    ? Math.round(start + ((end - start) * (step.current - 1)) / step.total)
+    : start;
+
+  return {
+    stage,
+    percent,
+    message,
+    ...(step && { step: step.current, totalSteps: step.total }),
+  };
+}
+
+/** Reporter used when a job is processed outside the queue. */
+export const noopProgressReporter: ProgressReporter = async () => undefined;
+
+/**
+ * Reporter for a queued PDV job. Failures to record or publish progress
+ * are logged and swallowed — they must never fail the report itself.
+ */
+export function createJobProgressReporter(
+  job: Job,
+  target: { reportId: string; organizationId: string; platformId: string }
+): ProgressReporter {
+  return async (stage, message, step) => {
+    const progress = pdvReportProgress(stage, message, step);
+    try {
+      await job.updateProgress(progress);
+      await publishJobProgress({
+        queue: job.queueName,
+        jobId: job.id!,
+        ...target,
+        progress,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      log.warn(
+        { err },
+        `Failed to report progress for job ${job.id} (${stage})`
+      );
+    }
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Versioned prompt registry for the PDV pipeline.
+ *
+ * Prompt wording can change without a deploy by adding a `PromptVersion`
+ * (`POST /prompts/:key/versions`). For a report on a platform, each
+ * prompt resolves to, first match wins:
+ *
+ *   1. the version the platform is pinned to in
+ *      `PlatformADVSetting.promptPins` ({ "<key>": <version> | "builtin" })
+ *   2. the latest active version created for that platform (an override)
+ *   3. the latest active version for all platforms
+ *   4. the built-in prompt in ./templates.ts
+ *
+ * The id of every prompt version used is stored on `Report.promptVersions`
+ * (e.g. "prePDV.summary@3", or "prePDV.summary@builtin-1a2b3c4d" where the
+ * suffix is a hash of the built-in wording).
+ */
+
+import { createHash } from 'crypto';
+import { db as prismaDb } from '../../db';
+import type { LLMSettingOverrides } from '../llm/settings';
+import { createLogger } from '../../logger';
+import {
+  builtinPrompts,
+  DEFAULT_SYSTEM_PROMPT,
+  type PromptKey,
+  type PromptVariables,
+} from './templates';
+
+const log = createLogger('pdv-prompts');
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export const PROMPT_KEYS = Object.keys(builtinPrompts) as PromptKey[];
+
+export const isPromptKey = (key: string): key is PromptKey =>
+  Object.prototype.hasOwnProperty.call(builtinPrompts, key);
+
+interface PromptVersionRow {
+  key: string;
+  version: number;
+  template: string;
+  systemPrompt: string | null;
+  maxTokens: number | null;
+  model: string | null;
+  webSearchMaxUses: number | null;
+  platformId: string | null;
+  active: boolean;
+}
+
+interface ResolvedPrompt {
+  id: string;
+  template: string;
+  systemPrompt: string;
+  /** Set on a stored version; take precedence over the platform's */
+  settings: LLMSettingOverrides;
+  /** The built-in prompt's; the platform's settings take precedence */
+  defaults: LLMSettingOverrides;
+}
+
+/** A prompt ready for `callLLM()`. */
+export interface RenderedPrompt {
+  prompt: string;
+  options: LLMSettingOverrides & {
+    promptDefaults: LLMSettingOverrides;
+    systemPrompt: string;
+    skipSanitization?: boolean;
+    metricName: string;
+  };
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Names of the `{{variables}}` a template uses. */
+export const templateVariables = (template: string): string[] => [
+  ...new Set(
+    Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]!)
+  ),
+];
+
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Prompt variable "${name}" has no value`);
+    }
+    return value;
+  });
+}
+
+const builtinPrompt = (key: PromptKey): ResolvedPrompt => {
+  const {
+    template,
+    systemPrompt = DEFAULT_SYSTEM_PROMPT,
+    maxTokens,
+  } = builtinPrompts[key];
+  const hash = createHash('sha256')
+    .update(JSON.stringify([template, systemPrompt, maxTokens]))
+    .digest('hex')
+    .slice(0, 8);
+
+  return {
+    id: `${key}@builtin-${hash}`,
+    template,
+    systemPrompt,
+    settings: {},
+    defaults: { maxTokens },
+  };
+};
+
+const storedPrompt = (row: PromptVersionRow): ResolvedPrompt => {
+  const builtin = builtinPrompt(row.key as PromptKey);
+  return {
+    id: `${row.key}@${row.version}`,
+    template: row.template,
+    systemPrompt: row.systemPrompt ?? builtin.systemPrompt,
+    settings: {
+      maxTokens: row.maxTokens ?? undefined,
+      model: row.model ?? undefined,
+      webSearchMaxUses: row.webSearchMaxUses ?? undefined,
+    },
+    defaults: builtin.defaults,
+  };
+};
+
+export class PromptSet {
+  private constructor(
+    private readonly prompts: Record<PromptKey, ResolvedPrompt>
+  ) {}
+
+  /** Resolve every PDV prompt for a report on `platformId`. */
+  static async load(platformId: string | null | undefined): Promise<PromptSet> {
+    const [rows, setting] = await Promise.all([
+      db.promptVersion.findMany({
+        where: {
+          key: { in: PROMPT_KEYS },
+          OR: [{ platformId: null }, ...(platformId ? [{ platformId }] : [])],
+        },
+        orderBy: { version: 'desc' },
+      }) as Promise<PromptVersionRow[]>,
+      platformId
+        ? (db.platformADVSetting.findUnique({
+            where: { platformId },
+            select: { promptPins: true },
+          }) as Promise<{ promptPins: unknown } | null>)
+        : null,
+    ]);
+    const pins = (setting?.promptPins ?? {}) as Record<
+      string,
+      number | 'builtin'
+    >;
+
+    const prompts = {} as Record<PromptKey, ResolvedPrompt>;
+    for (const key of PROMPT_KEYS) {
+      const versions = rows.filter((row) => row.key === key);
+      const pin = pins[key];
+
+      if (pin === 'builtin') {
+        prompts[key] = builtinPrompt(key);
+        continue;
+      }
+      if (pin !== undefined) {
+        const pinned = versions.find((row) => row.version === pin);
+        if (pinned) {
+          prompts[key] = storedPrompt(pinned);
+          continue;
+        }
+        log.warn(
+          `Platform ${platformId} is pinned to missing prompt version ${key}@${pin}`
+        );
+      }
+
+      const latest =
+        versions.find((row) => row.active && row.platformId === platformId) ??
+        versions.find((row) => row.active && row.platformId === null);
+      prompts[key] = latest ? storedPrompt(latest) : builtinPrompt(key);
+    }
+
+    return new PromptSet(prompts);
+  }
+
+  render<K extends PromptKey>(
+    key: K,
+    variables: PromptVariables[K]
+  ): RenderedPrompt {
+    const prompt = this.prompts[key];
+    const { metricName, skipSanitization } = builtinPrompts[key];
+    return {
+      prompt: renderTemplate(
+        prompt.template,
+        variables as unknown as Record<string, string>
+      ),
+      options: {
+        ...prompt.settings,
+        promptDefaults: prompt.defaults,
+        systemPrompt: prompt.systemPrompt,
+        skipSanitization,
+        metricName,
+      },
+    };
+  }
+
+  /** Version id of each prompt, for `Report.promptVersions`. */
+  get versions(): Record<PromptKey, string> {
+    const versions = {} as Record<PromptKey, string>;
+    for (const key of PROMPT_KEYS) versions[key] = this.prompts[key].id;
+    return versions;
+  }
+}
+
+export interface NewPromptVersion {
+  template: string;
+  systemPrompt?: string;
+  maxTokens?: number;
+  model?: string;
+  webSearchMaxUses?: number;
+  /** Only use this version for one platform's reports */
+  platformId?: string;
+  notes?: string;
+}
+
+type PromptFailure = { ok: false; status: number; error: string };
+
+export type CreatePromptVersionResult =
+  | { ok: true; id: string; version: number }
+  | PromptFailure;
+
+/**
+ * Store a new version of a prompt. It is used by new reports straight
+ * away, except on platforms pinned to another version.
+ */
+export async function createPromptVersion(
+  key: string,
+  input: NewPromptVersion
+): Promise<CreatePromptVersionResult> {
+  if (!isPromptKey(key)) {
+    return { ok: false, status: 404, error: `Unknown prompt: ${key}` };
+  }
+
+  const allowed: readonly string[] = builtinPrompts[key].variables;
+  const unknown = templateVariables(input.template).filter(
+    (name) => !allowed.includes(name)
+  );
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Unknown variable(s) ${unknown.join(
+        ', '
+      )}; ${key} supports ${allowed.join(', ')}`,
+    };
+  }
+
+  const latest = (await db.promptVersion.findFirst({
+    where: { key },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  })) as { version: number } | null;
+  const version = (latest?.version ?? 0) + 1;
+
+  // Two concurrent creates get the same number; the unique (key, version)
+  // index rejects the second one
+  await db.promptVersion.create({ data: { key, version, ...input } });
+  log.info(`Created prompt version ${key}@${version}`);
+  return { ok: true, id: `${key}@${version}`, version };
+}
+
+/** Every prompt with its built-in version and stored versions. */
+export async function listPrompts() {
+  const rows = (await db.promptVersion.findMany({
+    orderBy: [{ key: 'asc' }, { version: 'desc' }],
+  })) as Array<PromptVersionRow & { notes: string | null; createdAt: Date }>;
+
+  return PROMPT_KEYS.map((key) => ({
+    key,
+    metricName: builtinPrompts[key].metricName,
+    variables: builtinPrompts[key].variables,
+    builtin: builtinPrompt(key),
+    versions: rows
+      .filter((row) => row.key === key)
+      .map(({ key: rowKey, version, ...row }) => ({
+        id: `${rowKey}@${version}`,
+        version,
+        ...row,
+      })),
+  }));
+}
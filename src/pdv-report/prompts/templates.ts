@@ -0,0 +1,334 @@
+/**
+ * Built-in PDV prompts.
+ *
+ * These are the prompts every report uses unless a newer `PromptVersion`
+ * (or a platform pin) replaces them — see ./registry.ts. Variables are
+ * written as `{{name}}`; each prompt lists the variables it is rendered
+ * with, and stored versions may only use those.
+ */
+
+// Default system prompt to ensure clean, professional responses
+export const DEFAULT_SYSTEM_PROMPT = `You are a professional business analyst providing data valuation reports.
+
+CRITICAL INSTRUCTIONS:
+1. NEVER include meta-commentary about your process (e.g., "I'll search for...", "Let me find...", "I notice that...")
+2. NEVER mention that information is incomplete, unavailable, or that you need to search
+3. Provide DIRECT, FACTUAL responses only - as if you already have all the information
+4. If you don't have specific data, provide reasonable industry estimates based on the company's sector
+5. Write in a professional, authoritative tone suitable for business reports
+6. NEVER include phrases like "Based on my search", "According to my findings", "I found that"
+7. Start responses directly with the content - no preambles or explanations of what you're doing`;
+
+const JSON_FORMATTER_SYSTEM_PROMPT =
+  'You are a JSON data formatter. Respond with ONLY valid JSON. No explanatory text, no markdown code blocks, just the raw JSON object.';
+
+const EXTRACTION_SYSTEM_PROMPT =
+  'You are a data extraction expert. Extract structured numerical data from unstructured text. Always respond with valid JSON only. No explanatory text.';
+
+/** Accumulated analysis of the earlier Pre-PDV steps */
+interface PrePDVStepVariables {
+  orgName: string;
+  context: string;
+}
+
+/** Variables each prompt is rendered with. */
+export interface PromptVariables {
+  'prePDV.overview': { orgName: string };
+  'prePDV.dataReliance': PrePDVStepVariables;
+  'prePDV.dataAttribute': PrePDVStepVariables & {
+    /** Percentage from the Data Reliance step, or "previously estimated" */
+    dataReliancePercent: string;
+  };
+  'prePDV.dataUniqueness': PrePDVStepVariables;
+  'prePDV.dataScarcity': PrePDVStepVariables;
+  'prePDV.dataOwnership': PrePDVStepVariables;
+  'prePDV.dataCollection': PrePDVStepVariables;
+  'prePDV.summary': PrePDVStepVariables;
+  'supplementary.comparison': { orgName: string; preADVContext: string };
+  'pdvCalculation.extraction': {
+    yearsCollectingAnswer: string;
+    dataAttributableAnswer: string;
+    dataReliantAnswer: string;
+    marketValueAnswer: string;
+    yearlyValuationsAnswer: string;
+    currentYear: string;
+  };
+}
+
+export type PromptKey = keyof PromptVariables;
+
+export interface PromptDefinition<TVars> {
+  /** Step name used for logging, usage accounting and LLM fixtures */
+  metricName: string;
+  variables: ReadonlyArray<keyof TVars & string>;
+  template: string;
+  /** Defaults to DEFAULT_SYSTEM_PROMPT */
+  systemPrompt?: string;
+  maxTokens?: number;
+  /** JSON responses must not go through sanitizeResponse() */
+  skipSanitization?: boolean;
+}
+
+export const builtinPrompts: {
+  [K in PromptKey]: PromptDefinition<PromptVariables[K]>;
+} = {
+  'prePDV.overview': {
+    metricName: 'Company Overview',
+    variables: ['orgName'],
+    maxTokens: 300,
+    template: `Provide a professional 5-line overview for {{orgName}}. Focus on their business model, industry and sector position, and key operations.`,
+  },
+  'prePDV.dataReliance': {
+    metricName: 'Data Reliance',
+    variables: ['orgName', 'context'],
+    maxTokens: 1200,
+    template: `Based on the following context about {{orgName}}:
+{{context}}
+
+Estimate the data reliance percentage for {{orgName}}. Data reliance measures how dependent the company's operations, revenue, and competitive advantage are on data assets.
+
+Provide a CONCISE response with:
+1. **Percentage Estimate**: A specific percentage estimate (e.g., "75%")
+
+2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
+   - How data drives core operations and revenue
+   - Key data dependencies in the business model
+   - Decision-making and infrastructure reliance on data
+
+3. **Key Factors**: List 4-5 specific factors (as bullet points) that influence this percentage for {{orgName}}
+
+Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
+  },
+  'prePDV.dataAttribute': {
+    metricName: 'Data Driven',
+    variables: ['orgName', 'context', 'dataReliancePercent'],
+    maxTokens: 1200,
+    template: `Based on the following context about {{orgName}}:
+{{context}}
+
+Estimate the data driven percentage for {{orgName}}. Data driven measures what percentage of the company's business value can be directly attributed to their data assets.
+
+Provide a CONCISE response with:
+1. **Percentage Estimate**: A specific percentage estimate (e.g., "70%")
+
+2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
+   - How data directly contributes to revenue generation
+   - Key data-driven products or services
+   - Customer value derived from data capabilities
+
+3. **Relationship to Data Reliance**: One sentence on how this relates to data reliance ({{dataReliancePercent}}%)
+
+4. **Data Driven Breakdown**: 3-4 bullet points breaking down drivers across business areas
+
+Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
+  },
+  'prePDV.dataUniqueness': {
+    metricName: 'Data Uniqueness',
+    variables: ['orgName', 'context'],
+    maxTokens: 1200,
+    template: `Based on the following context about {{orgName}}:
+{{context}}
+
+Estimate the data uniqueness percentage for {{orgName}}. Data uniqueness measures how unique and proprietary the company's data assets are compared to what competitors or the market can access.
+
+Provide a CONCISE response with:
+1. **Percentage Estimate**: A specific percentage estimate (e.g., "60%")
+
+2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
+   - Proprietary data sources and collection methods
+   - Unique data types competitors cannot access
+   - Exclusive partnerships or user-generated data advantages
+
+3. **Uniqueness Factors** (3-4 bullet points):
+   - Key differentiators vs competitors
+   - Barriers to replication and time-based advantages
+
+4. **Commonality Assessment** (2-3 bullet points):
+   - Industry-standard or publicly available data components
+
+Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
+  },
+  'prePDV.dataScarcity': {
+    metricName: 'Data Scarcity',
+    variables: ['orgName', 'context'],
+    maxTokens: 1200,
+    template: `Based on the following context about {{orgName}}:
+{{context}}
+
+Estimate the data scarcity percentage for {{orgName}}. Data scarcity measures how rare or difficult to replicate the company's data assets are in the market.
+
+Provide a CONCISE response with:
+1. **Percentage Estimate**: A specific percentage estimate (e.g., "55%")
+
+2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
+   - Data that is inherently rare in the market
+   - Time, cost, and regulatory barriers to collection
+   - Technical barriers to replication
+
+3. **Scarcity Factors** (3-4 bullet points):
+   - Key market and economic conditions creating scarcity
+
+4. **Abundance Assessment** (2-3 bullet points):
+   - Commonly available or purchasable data components
+
+Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
+  },
+  'prePDV.dataOwnership': {
+    metricName: 'Data Ownership',
+    variables: ['orgName', 'context'],
+    maxTokens: 1200,
+    template: `Based on the following context about {{orgName}}:
+{{context}}
+
+Estimate the data ownership percentage for {{orgName}}. Data ownership measures what percentage of their data assets they fully own and control, versus data that is licensed, shared, or has usage restrictions.
+
+Provide a CONCISE response with:
+1. **Percentage Estimate**: A specific percentage estimate (e.g., "80%")
+
+2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
+   - Fully owned data assets and first-party collection
+   - Licensed or third-party data dependencies
+   - Legal and regulatory ownership considerations
+
+3. **Ownership Structure** (3-4 bullet points):
+   - Breakdown of owned vs licensed vs shared data
+   - Strategic importance of proprietary data
+
+4. **Limitations and Risks** (2-3 bullet points):
+   - Key usage restrictions and contractual limitations
+   - Regulatory constraints and ownership gaps
+
+Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
+  },
+  'prePDV.dataCollection': {
+    metricName: 'Data Collection',
+    variables: ['orgName', 'context'],
+    maxTokens: 800,
+    template: `Based on the following comprehensive context about {{orgName}}:
+{{context}}
+
+Provide a concise analysis of the data collected by {{orgName}} as 4-6 bullet points covering:
+- Types of unique data they collect
+- Environmental/ESG data considerations
+- Data collection methods and sources
+- How their data collection supports the metrics analyzed above
+
+Keep each bullet to 1-2 sentences. Total response under 200 words. Format with markdown bullet points (- ).`,
+  },
+  'prePDV.summary': {
+    metricName: 'Data Summary JSON',
+    variables: ['orgName', 'context'],
+    systemPrompt: JSON_FORMATTER_SYSTEM_PROMPT,
+    skipSanitization: true,
+    template: `Based on the following comprehensive analysis of {{orgName}}:
+{{context}}
+
+Create a powerful and professional data summary for {{orgName}} including their competitive advantages.
+
+IMPORTANT: Use the specific percentage values from the analysis above for each metric.
+
+Provide the response in JSON format:
+{
+  "summary": "Professional summary text synthesizing all the above analysis",
+  "competitiveAdvantages": ["advantage 1", "advantage 2", ...],
+  "dataProfileTable": [
+    {"dataMetric": "Data Reliance", "estimate": "XX%", "strategicSignificance": "significance"},
+    {"dataMetric": "Data Scarcity", "estimate": "XX%", "strategicSignificance": "significance"},
+    {"dataMetric": "Data Ownership", "estimate": "XX%", "strategicSignificance": "significance"},
+    {"dataMetric": "Data Uniqueness", "estimate": "XX%", "strategicSignificance": "significance"}
+  ],
+  "extractedMetrics": {
+    "dataReliancePercent": <number from analysis>,
+    "dataAttributePercent": <number from analysis>,
+    "dataUniquenessPercent": <number from analysis>,
+    "dataScarcityPercent": <number from analysis>,
+    "dataOwnershipPercent": <number from analysis>
+  }
+}
+
+Respond with ONLY the JSON object, no other text.`,
+  },
+  'supplementary.comparison': {
+    metricName: 'Supplementary Comparison JSON',
+    variables: ['orgName', 'preADVContext'],
+    systemPrompt: JSON_FORMATTER_SYSTEM_PROMPT,
+    skipSanitization: true,
+    template: `{{preADVContext}}
+
+For {{orgName}}, identify the 5 closest competitors in the same sector and create a comprehensive Data Profile and Competitive Moat comparison across 5 data metrics - data reliance, data attribution, data uniqueness, data scarcity, and data ownership percentages.
+
+IMPORTANT: Use the metrics from the Pre-PDV Analysis Context above to ensure consistency. The organization values in the comparison should match the extracted metrics. Name the 5 closest real competitors in the same sector.
+
+Provide response in JSON format:
+{
+  "sectorName": "sector name",
+  "competitors": ["Competitor 1 Name", "Competitor 2 Name", "Competitor 3 Name", "Competitor 4 Name", "Competitor 5 Name"],
+  "comparisonTable": [
+    {"dataMetric": "Data Reliance", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
+    {"dataMetric": "Data Driven", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
+    {"dataMetric": "Data Uniqueness", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
+    {"dataMetric": "Data Scarcity", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
+    {"dataMetric": "Data Ownership", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"}
+  ],
+  "qualitativeComparison": "A concise analysis (max 150 words) structured as: one short intro sentence, then 4-6 bullet points (each starting with '- ') highlighting key competitive differentiators and data moat insights vs the 5 competitors. Keep each bullet to 1-2 sentences max.",
+  "radarChartData": {
+    "dataMetrics": ["Data Reliance", "Data Driven", "Data Uniqueness", "Data Scarcity", "Data Ownership"],
+    "organizationValues": [<numeric values matching extracted metrics>],
+    "competitor1Values": [<numeric values for competitor 1>],
+    "competitor2Values": [<numeric values for competitor 2>],
+    "competitor3Values": [<numeric values for competitor 3>],
+    "competitor4Values": [<numeric values for competitor 4>],
+    "competitor5Values": [<numeric values for competitor 5>]
+  }
+}
+
+Respond with ONLY the JSON object, no other text.`,
+  },
+  'pdvCalculation.extraction': {
+    metricName: 'PDV Extraction',
+    variables: [
+      'yearsCollectingAnswer',
+      'dataAttributableAnswer',
+      'dataReliantAnswer',
+      'marketValueAnswer',
+      'yearlyValuationsAnswer',
+      'currentYear',
+    ],
+    systemPrompt: EXTRACTION_SYSTEM_PROMPT,
+    skipSanitization: true,
+    template: `You are a data extraction expert. Extract structured numerical data from the following user responses.
+
+Questions and Answers:
+1. How long has your business been collecting data?
+   Answer: {{yearsCollectingAnswer}}
+
+2. What percentage of business is attributable to data?
+   Answer: {{dataAttributableAnswer}}
+
+3. What percentage of business is data reliant?
+   Answer: {{dataReliantAnswer}}
+
+4. What is the current market value of your business?
+   Answer: {{marketValueAnswer}}
+
+5. For each year collecting data, what was the company valuation each year?
+   Answer: {{yearlyValuationsAnswer}}
+
+Extract and provide the following in JSON format:
+{
+  "yearsCollectingData": <number of years as integer>,
+  "dataAttributablePercent": <percentage as decimal, e.g., 75 for 75%>,
+  "dataReliancePercent": <percentage as decimal, e.g., 80 for 80%>,
+  "currentCompanyValue": <current market value as number without commas or currency symbols>,
+  "yearlyValuations": [<array of company valuations for each year, starting from first year of data collection to present. If not provided by user, calculate: start at 10% of current value, increase by 10% of current value each year until reaching current value, then hold at current value>]
+}
+
+Important:
+- All percentages should be decimals (e.g., 75 not 0.75)
+- All monetary values should be numbers without commas or symbols
+- yearlyValuations should be an array with length equal to yearsCollectingData
+- Current year is {{currentYear}}
+
+Respond with ONLY the JSON object, no other text.`,
+  },
+};
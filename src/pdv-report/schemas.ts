@@ -0,0 +1,165 @@
+/**
+ * JSON Schemas for the structured (JSON) responses of the PDV pipeline.
+ *
+ * Every JSON response is validated against its schema before it is used;
+ * `callLLMForJSON()` in the worker re-prompts with the validation errors
+ * when it doesn't match, instead of the report silently losing a section.
+ */
+
+import Ajv from 'ajv';
+import type { FromSchema } from 'json-schema-to-ts';
+
+const percent = { type: 'number', minimum: 0, maximum: 100 } as const;
+const percents = { type: 'array', items: { type: 'number' } } as const;
+const strings = { type: 'array', items: { type: 'string' } } as const;
+
+export const preADVSummarySchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    competitiveAdvantages: strings,
+    dataProfileTable: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          dataMetric: { type: 'string' },
+          estimate: { type: 'string' },
+          strategicSignificance: { type: 'string' },
+        },
+        required: ['dataMetric', 'estimate', 'strategicSignificance'],
+      },
+    },
+    extractedMetrics: {
+      type: 'object',
+      properties: {
+        dataReliancePercent: percent,
+        dataAttributePercent: percent,
+        dataUniquenessPercent: percent,
+        dataScarcityPercent: percent,
+        dataOwnershipPercent: percent,
+      },
+    },
+  },
+  required: ['summary', 'competitiveAdvantages', 'dataProfileTable'],
+} as const;
+
+export type PreADVSummary = FromSchema<typeof preADVSummarySchema>;
+
+export const supplementaryDataSchema = {
+  type: 'object',
+  properties: {
+    sectorName: { type: 'string', minLength: 1 },
+    geographyName: { type: 'string' },
+    competitors: strings,
+    comparisonTable: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          dataMetric: { type: 'string' },
+          organizationValue: { type: 'string' },
+          sectorValue: { type: 'string' },
+          geographyValue: { type: 'string' },
+          competitor1Value: { type: 'string' },
+          competitor2Value: { type: 'string' },
+          competitor3Value: { type: 'string' },
+          competitor4Value: { type: 'string' },
+          competitor5Value: { type: 'string' },
+        },
+        required: ['dataMetric', 'organizationValue'],
+      },
+    },
+    qualitativeComparison: { type: 'string' },
+    radarChartData: {
+      type: 'object',
+      properties: {
+        dataMetrics: strings,
+        organizationValues: percents,
+        competitor1Values: percents,
+        competitor2Values: percents,
+        competitor3Values: percents,
+        competitor4Values: percents,
+        competitor5Values: percents,
+      },
+      required: ['dataMetrics', 'organizationValues'],
+    },
+  },
+  required: [
+    'sectorName',
+    'comparisonTable',
+    'qualitativeComparison',
+    'radarChartData',
+  ],
+} as const;
+
+export type SupplementaryData = FromSchema<typeof supplementaryDataSchema>;
+
+export const pdvExtractionSchema = {
+  type: 'object',
+  properties: {
+    yearsCollectingData: { type: 'integer', minimum: 0 },
+    dataAttributablePercent: percent,
+    dataReliancePercent: percent,
+    // The PDV range is reported as a share of it
+    currentCompanyValue: { type: 'number', exclusiveMinimum: 0 },
+    yearlyValuations: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'number', minimum: 0 },
+    },
+  },
+  required: [
+    'yearsCollectingData',
+    'dataAttributablePercent',
+    'dataReliancePercent',
+    'currentCompanyValue',
+    'yearlyValuations',
+  ],
+} as const;
+
+export type PDVExtraction = FromSchema<typeof pdvExtractionSchema>;
+
+const ajv = new Ajv({ allErrors: true });
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export interface ResponseSchema<T> {
+  name: string;
+  validate: (value: unknown) => ValidationResult<T>;
+}
+
+function responseSchema<T>(name: string, schema: object): ResponseSchema<T> {
+  const validate = ajv.compile(schema);
+  return {
+    name,
+    validate: (value) =>
+      validate(value)
+        ? { ok: true, value: value as T }
+        : {
+            ok: false,
+            error: ajv.errorsText(validate.errors, {
+              dataVar: 'response',
+              separator: '\n',
+            }),
+          },
+  };
+}
+
+export const responseSchemas = {
+  preADVSummary: responseSchema<PreADVSummary>(
+    'Pre-PDV summary',
+    preADVSummarySchema
+  ),
+  supplementaryData: responseSchema<SupplementaryData>(
+    'Supplementary comparison',
+    supplementaryDataSchema
+  ),
+  pdvExtraction: responseSchema<PDVExtraction>(
+    'PDV extraction',
+    pdvExtractionSchema
+  ),
+};
@@ -0,0 +1,103 @@
+/**
+ * Structured outcome of each PDV pipeline stage.
+ *
+ * A stage that throws or comes back empty no longer just logs and moves
+ * on: its outcome is recorded on `Report.stageOutcomes` and returned in
+ * `PDVReportJobResult`, so a report with a missing section is visibly
+ * partial. Whether a partial report is still emailed is decided by
+ * PDV_PARTIAL_FAILURE_POLICY (see the PDV queue processor).
+ *
+ * A stage that failed for a transient reason (LLM provider or network
+ * unavailable) is marked `retryable`: until the job's last attempt the
+ * worker fails the job instead, so BullMQ retries it from the checkpoint.
+ */
+
+import { createLogger } from '../logger';
+
+const log = createLogger('pdv-report');
+
+export type PDVStageName =
+  | 'prePDV'
+  | 'supplementary'
+  | 'pdvCalculation'
+  | 'pdf';
+
+export type StageOutcome =
+  | { status: 'ok' }
+  | { status: 'failed'; reason: string; retryable: boolean }
+  | { status: 'skipped'; reason: string };
+
+export type StageOutcomes = Partial<Record<PDVStageName, StageOutcome>>;
+
+// Node socket errors and Prisma's "can't reach / timed out" codes
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'P1001',
+  'P1002',
+  'P1008',
+  'P1017',
+  'P2024',
+]);
+
+/** Whether an error is a network failure that may succeed on retry. */
+export const isNetworkError = (error: unknown): boolean => {
+  const { code, errorCode } =
+    (error as { code?: unknown; errorCode?: unknown } | null) ?? {};
+  return [code, errorCode].some(
+    (value) => typeof value === 'string' && NETWORK_ERROR_CODES.has(value)
+  );
+};
+
+/**
+ * Run a stage and record its outcome. Errors are caught (the pipeline
+ * carries on with the remaining stages) and an empty result counts as a
+ * failure. Returns the stage output, or null if it failed.
+ */
+export async function runStage<T>(
+  outcomes: StageOutcomes,
+  stage: PDVStageName,
+  run: () => Promise<T | null | undefined>,
+  isTransient: (error: unknown) => boolean = isNetworkError
+): Promise<T | null> {
+  try {
+    const output = await run();
+    if (!output) {
+      outcomes[stage] = {
+        status: 'failed',
+        reason: 'Stage produced no output',
+        retryable: false,
+      };
+      log.error(`PDV stage ${stage} produced no output`);
+      return null;
+    }
+    outcomes[stage] = { status: 'ok' };
+    return output;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    outcomes[stage] = {
+      status: 'failed',
+      reason,
+      retryable: isTransient(error),
+    };
+    log.error({ err: error }, `PDV stage ${stage} failed`);
+    return null;
+  }
+}
+
+/** Stages that failed, in pipeline order. */
+export const failedStages = (outcomes: StageOutcomes): PDVStageName[] =>
+  (Object.keys(outcomes) as PDVStageName[]).filter(
+    (stage) => outcomes[stage]?.status === 'failed'
+  );
+
+/** Stages that failed for a transient reason, in pipeline order. */
+export const retryableStages = (outcomes: StageOutcomes): PDVStageName[] =>
+  failedStages(outcomes).filter((stage) => {
+    const outcome = outcomes[stage];
+    return outcome?.status === 'failed' && outcome.retryable;
+  });
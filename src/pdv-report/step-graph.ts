@@ -0,0 +1,84 @@
+/**
+ * Runs pipeline steps as a dependency graph.
+ *
+ * A step starts as soon as every step it depends on has finished, with at
+ * most `concurrency` steps in flight. Steps are started in the order they
+ * are declared when several are ready. If a step fails no further steps
+ * are started; the ones already running finish (so their checkpoints are
+ * saved) and the first error is thrown.
+ */
+
+export interface GraphStep<K extends string, T> {
+  dependsOn: readonly K[];
+  /** Receives the outputs of the steps finished so far */
+  run: (outputs: Partial<Record<K, T>>) => Promise<T>;
+}
+
+export function runStepGraph<K extends string, T>(
+  steps: Record<K, GraphStep<K, T>>,
+  concurrency: number
+): Promise<Record<K, T>> {
+  const keys = Object.keys(steps) as K[];
+  for (const key of keys) {
+    const unknown = steps[key].dependsOn.find((dep) => !(dep in steps));
+    if (unknown) {
+      return Promise.reject(
+        new Error(`Step ${key} depends on unknown step ${unknown}`)
+      );
+    }
+  }
+
+  const limit = Math.max(1, concurrency);
+  const outputs: Partial<Record<K, T>> = {};
+  const started = new Set<K>();
+  const finished = new Set<K>();
+  let running = 0;
+  let failure: { error: unknown } | null = null;
+
+  return new Promise((resolve, reject) => {
+    const schedule = () => {
+      if (failure) {
+        if (running === 0) reject(failure.error);
+        return;
+      }
+      if (finished.size === keys.length) {
+        resolve(outputs as Record<K, T>);
+        return;
+      }
+
+      const ready = keys.filter(
+        (key) =>
+          !started.has(key) &&
+          steps[key].dependsOn.every((dep) => finished.has(dep))
+      );
+      if (ready.length === 0 && running === 0) {
+        reject(new Error('Step graph has a dependency cycle'));
+        return;
+      }
+
+      ready.slice(0, limit - running).forEach(start);
+    };
+
+    const start = (key: K) => {
+      started.add(key);
+      running += 1;
+      steps[key]
+        .run({ ...outputs })
+        .then(
+          (output) => {
+            outputs[key] = output;
+            finished.add(key);
+          },
+          (error: unknown) => {
+            failure ??= { error };
+          }
+        )
+        .finally(() => {
+          running -= 1;
+          schedule();
+        });
+    };
+
+    schedule();
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * Claude usage and cost accounting.
+ *
+ * Every Claude call made while generating a report is stored as a
+ * `ClaudeUsage` row (step, model, tokens, web searches, latency and the
+ * cost at the time of the call), linked to the report and its platform.
+ * `summarizeClaudeUsage()` aggregates them for `GET /usage/claude`.
+ */
+
+import { Prisma } from '@prisma/client';
+import { db as prismaDb } from '../db';
+import { createLogger } from '../logger';
+
+const log = createLogger('pdv-usage');
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+/** USD per million tokens, and per web search */
+interface ModelPricing {
+  input: number;
+  output: number;
+  webSearch: number;
+}
+
+// List prices; unknown models are priced as Sonnet so costs are never 0
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, webSearch: 0.01 },
+};
+const DEFAULT_PRICING = MODEL_PRICING['claude-sonnet-4-20250514']!;
+
+export interface ClaudeCallUsage {
+  metricName: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  latencyMs: number;
+}
+
+export type ClaudeUsageRecorder = (call: ClaudeCallUsage) => Promise<void>;
+
+export function claudeCallCost(call: ClaudeCallUsage): number {
+  const pricing = MODEL_PRICING[call.model] ?? DEFAULT_PRICING;
+  return (
+    (call.inputTokens * pricing.input + call.outputTokens * pricing.output) /
+      1_000_000 +
+    call.webSearchRequests * pricing.webSearch
+  );
+}
+
+/**
+ * Recorder that stores each call against the report. Failures are logged
+ * and swallowed — accounting must never fail the report itself.
+ */
+export function createClaudeUsageRecorder(target: {
+  reportId: string;
+  platformId: string | null;
+}): ClaudeUsageRecorder {
+  return async (call) => {
+    try {
+      await db.claudeUsage.create({
+        data: {
+          ...target,
+          ...call,
+          costUsd: claudeCallCost(call),
+        },
+      });
+    } catch (err) {
+      log.warn(
+        { err, metric: call.metricName },
+        `Failed to record Claude usage for report ${target.reportId}`
+      );
+    }
+  };
+}
+
+export interface ClaudeUsageFilter {
+  from?: Date;
+  to?: Date;
+  platformId?: string;
+}
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  webSearchRequests: number;
+  costUsd: number;
+}
+
+export interface ClaudeUsageSummary {
+  totals: UsageTotals;
+  /** Most expensive reports first (at most `reportLimit`) */
+  byReport: Array<UsageTotals & { reportId: string }>;
+  byPlatform: Array<UsageTotals & { platformId: string | null }>;
+  /** Per pipeline step, to spot prompts whose usage runs away */
+  byMetric: Array<UsageTotals & { metricName: string }>;
+  /** Calendar months (UTC), oldest first, as `YYYY-MM` */
+  byMonth: Array<UsageTotals & { month: string }>;
+}
+
+const SUMMED_FIELDS = {
+  inputTokens: true,
+  outputTokens: true,
+  webSearchRequests: true,
+  costUsd: true,
+};
+
+interface GroupRow {
+  _count: { _all: number };
+  _sum: Partial<Record<keyof typeof SUMMED_FIELDS, number | null>>;
+}
+
+const totalsOf = ({ _count, _sum }: GroupRow): UsageTotals => ({
+  calls: _count._all,
+  inputTokens: _sum.inputTokens ?? 0,
+  outputTokens: _sum.outputTokens ?? 0,
+  webSearchRequests: _sum.webSearchRequests ?? 0,
+  costUsd: _sum.costUsd ?? 0,
+});
+
+export async function summarizeClaudeUsage(
+  filter: ClaudeUsageFilter,
+  reportLimit = 50
+): Promise<ClaudeUsageSummary> {
+  const where = {
+    ...(filter.platformId && { platformId: filter.platformId }),
+    ...((filter.from || filter.to) && {
+      createdAt: {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lt: filter.to }),
+      },
+    }),
+  };
+  const group = (by: string, extra: object = {}): Promise<GroupRow[]> =>
+    db.claudeUsage.groupBy({
+      by: [by],
+      where,
+      _count: { _all: true },
+      _sum: SUMMED_FIELDS,
+      ...extra,
+    });
+
+  const conditions = [
+    filter.platformId && Prisma.sql`"platformId" = ${filter.platformId}`,
+    filter.from && Prisma.sql`"createdAt" >= ${filter.from}`,
+    filter.to && Prisma.sql`"createdAt" < ${filter.to}`,
+  ].filter((condition): condition is Prisma.Sql => Boolean(condition));
+  const whereSql = conditions.length
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty;
+
+  const [totals, byReport, byPlatform, byMetric, byMonth] = await Promise.all([
+    db.claudeUsage.aggregate({
+      where,
+      _count: { _all: true },
+      _sum: SUMMED_FIELDS,
+    }) as Promise<GroupRow>,
+    group('reportId', {
+      orderBy: { _sum: { costUsd: 'desc' } },
+      take: reportLimit,
+    }),
+    group('platformId'),
+    group('metricName', { orderBy: { _sum: { costUsd: 'desc' } } }),
+    db.$queryRaw`
+      SELECT to_char(date_trunc('month', "createdAt"), 'YYYY-MM') AS month,
+             count(*)::int AS calls,
+             coalesce(sum("inputTokens"), 0)::float8 AS "inputTokens",
+             coalesce(sum("outputTokens"), 0)::float8 AS "outputTokens",
+             coalesce(sum("webSearchRequests"), 0)::float8 AS "webSearchRequests",
+             coalesce(sum("costUsd"), 0)::float8 AS "costUsd"
+      FROM "ClaudeUsage"
+      ${whereSql}
+      GROUP BY 1
+      ORDER BY 1
+    ` as Promise<Array<UsageTotals & { month: string }>>,
+  ]);
+
+  return {
+    totals: totalsOf(totals),
+    byReport: (byReport as Array<GroupRow & { reportId: string }>).map(
+      (row) => ({ reportId: row.reportId, ...totalsOf(row) })
+    ),
+    byPlatform: (
+      byPlatform as Array<GroupRow & { platformId: string | null }>
+    ).map((row) => ({ platformId: row.platformId, ...totalsOf(row) })),
+    byMetric: (byMetric as Array<GroupRow & { metricName: string }>).map(
+      (row) => ({ metricName: row.metricName, ...totalsOf(row) })
+    ),
+    byMonth,
+  };
+}
@@ -1,7 +1,42 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { env } from '../env';
 import { db as prismaDb } from '../db';
 import { generateUnifiedADVPDFClient } from './pdf-generator';
+import { renderEmail } from '../email/templates';
+import { noopProgressReporter, type ProgressReporter } from './progress';
+import { CLEARED_CHECKPOINT, PDVCheckpoint } from './checkpoint';
+import {
+  failedStages,
+  isNetworkError,
+  retryableStages,
+  runStage,
+  type PDVStageName,
+  type StageOutcomes,
+} from './stage-outcomes';
+import { recordClaudeUsage } from '../metrics';
+import { createClaudeUsageRecorder, type ClaudeUsageRecorder } from './usage';
+import {
+  getLLMClient,
+  type CitedText,
+  type LLMClient,
+  type LLMSource,
+} from './llm/client';
+import {
+  resolveLLMSettings,
+  resolvePlatformLLMSettings,
+  type LLMSettingOverrides,
+  type ReportLLMSettings,
+} from './llm/settings';
+import { PromptSet, type RenderedPrompt } from './prompts/registry';
+import { runStepGraph, type GraphStep } from './step-graph';
+import {
+  responseSchemas,
+  type ResponseSchema,
+  type ValidationResult,
+} from './schemas';
+import { DEFAULT_SYSTEM_PROMPT } from './prompts/templates';
+import { createLogger } from '../logger';
+
+const log = createLogger('pdv-report');
 
 // Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -20,20 +55,11 @@ export interface PDVReportJobData {
   subdomain: string;
   enableADV: boolean;
   pdvAnswers: Array<{ question: string; answer: string }>;
+  /** Optional email delivery overrides (see resolveEmailDelay) */
+  deliverAt?: string;
+  delayMs?: number;
 }
 
-// Default system prompt to ensure clean, professional responses
-const DEFAULT_SYSTEM_PROMPT = `You are a professional business analyst providing data valuation reports.
-
-CRITICAL INSTRUCTIONS:
-1. NEVER include meta-commentary about your process (e.g., "I'll search for...", "Let me find...", "I notice that...")
-2. NEVER mention that information is incomplete, unavailable, or that you need to search
-3. Provide DIRECT, FACTUAL responses only - as if you already have all the information
-4. If you don't have specific data, provide reasonable industry estimates based on the company's sector
-5. Write in a professional, authoritative tone suitable for business reports
-6. NEVER include phrases like "Based on my search", "According to my findings", "I found that"
-7. Start responses directly with the content - no preambles or explanations of what you're doing`;
-
 // Helper to sanitize Claude responses by removing meta-commentary
 function sanitizeResponse(text: string): string {
   // Patterns to remove meta-commentary
@@ -55,95 +81,92 @@ function sanitizeResponse(text: string): string {
   return cleaned;
 }
 
-// Helper to call Claude API
-async function callClaude(
-  client: Anthropic,
+// LLM backend, this report's model defaults and prompt versions, and
+// where the usage of each call is recorded
+export interface LLMContext {
+  client: LLMClient;
+  settings: ReportLLMSettings;
+  prompts: PromptSet;
+  recordUsage: ClaudeUsageRecorder;
+}
+
+// Helper to call the LLM. Model, max tokens and web search are resolved
+// per prompt (see llm/settings.ts): a prompt version's own settings, then
+// the platform's, then the built-in prompt's defaults.
+async function callLLM(
+  llm: LLMContext,
   prompt: string,
-  options?: {
+  options?: LLMSettingOverrides & {
+    promptDefaults?: LLMSettingOverrides;
     systemPrompt?: string;
-    maxTokens?: number;
     jsonMode?: boolean;
     skipSanitization?: boolean;
-    metricName?: string; // For logging purposes
+    metricName?: string; // For logging, usage accounting and fixtures
   }
-): Promise<string> {
+): Promise<CitedText> {
   // Use custom system prompt if provided, otherwise use default
   const systemPrompt = options?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
   const metricName = options?.metricName ?? 'unknown';
+  const settings = resolveLLMSettings(
+    llm.settings,
+    options,
+    options?.promptDefaults
+  );
 
-  console.log(`\n${'='.repeat(80)}`);
-  console.log(`🤖 [Claude API] Starting call for: ${metricName}`);
-  console.log(`📝 [Claude API] Prompt length: ${prompt.length} characters`);
-  console.log(`⚙️ [Claude API] Max tokens: ${options?.maxTokens ?? 5000}`);
-  console.log(
-    `🔧 [Claude API] Skip sanitization: ${options?.skipSanitization ?? false}`
+  const llmLog = log.child({ metric: metricName });
+  llmLog.debug(
+    {
+      provider: llm.client.name,
+      ...settings,
+      promptLength: prompt.length,
+      skipSanitization: options?.skipSanitization ?? false,
+    },
+    'LLM call started'
   );
 
   const startTime = Date.now();
 
-  const message = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: options?.maxTokens ?? 5000,
+  const response = await llm.client.complete({
+    metricName,
+    model: settings.model,
     system: systemPrompt,
-    messages: [{ role: 'user', content: prompt }],
-    tools: [
-      {
-        type: 'web_search_20250305',
-        name: 'web_search',
-        max_uses: 5,
-      },
-    ],
+    prompt,
+    maxTokens: settings.maxTokens,
+    webSearchMaxUses: settings.webSearchMaxUses,
   });
 
   const elapsed = Date.now() - startTime;
-  console.log(`⏱️ [Claude API] Response received in ${elapsed}ms`);
-  console.log(`📊 [Claude API] Stop reason: ${message.stop_reason}`);
-  console.log(`📊 [Claude API] Content blocks: ${message.content.length}`);
-  console.log(
-    `📊 [Claude API] Usage - Input tokens: ${message.usage.input_tokens}, Output tokens: ${message.usage.output_tokens}`
-  );
-
-  // Log all content blocks for debugging
-  message.content.forEach((block, index) => {
-    console.log(`📦 [Claude API] Block ${index}: type=${block.type}`);
-    if (block.type === 'text' && 'text' in block) {
-      console.log(
-        `📄 [Claude API] Text block length: ${block.text.length} characters`
-      );
-    } else if (block.type === 'tool_use' || block.type === 'server_tool_use') {
-      console.log(`🔧 [Claude API] Tool use: ${JSON.stringify(block)}`);
-    }
+  recordClaudeUsage(response.usage);
+  await llm.recordUsage({
+    metricName,
+    model: response.model,
+    ...response.usage,
+    latencyMs: elapsed,
   });
 
-  // IMPORTANT: Concatenate ALL text blocks, not just the first one!
-  // When using web_search, Claude returns multiple text blocks spread across the response
-  const textBlocks = message.content.filter((block) => block.type === 'text');
-  let response = textBlocks
-    .map((block) => ('text' in block ? block.text : ''))
-    .join('');
-
-  console.log(
-    `📊 [Claude API] Found ${textBlocks.length} text blocks, concatenated length: ${response.length} characters`
-  );
-
-  console.log(`\n📥 [Claude API] RAW RESPONSE for ${metricName}:`);
-  console.log(`${'─'.repeat(60)}`);
-  console.log(response);
-  console.log(`${'─'.repeat(60)}`);
-
+  let text = response.text;
   // Sanitize response unless explicitly skipped (e.g., for JSON responses)
   if (!options?.skipSanitization && !options?.jsonMode) {
-    const originalLength = response.length;
-    response = sanitizeResponse(response);
-    console.log(
-      `🧹 [Claude API] Sanitized response: ${originalLength} → ${response.length} characters`
-    );
+    text = sanitizeResponse(text);
   }
 
-  console.log(`✅ [Claude API] Completed: ${metricName}`);
-  console.log(`${'='.repeat(80)}\n`);
+  llmLog.info(
+    {
+      elapsedMs: elapsed,
+      model: response.model,
+      stopReason: response.stopReason,
+      contentBlocks: response.contentBlocks,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      webSearchRequests: response.usage.webSearchRequests,
+      responseLength: response.text.length,
+      sanitizedLength: text.length,
+      sources: response.sources.length,
+    },
+    'LLM call completed'
+  );
 
-  return response;
+  return { text, sources: response.sources };
 }
 
 // Helper to extract JSON from Claude's response
@@ -163,6 +186,65 @@ function extractJSON(text: string): string {
   return text;
 }
 
+// Parse a JSON response and validate it against its schema
+function parseLLMJSON<T>(
+  schema: ResponseSchema<T>,
+  text: string
+): ValidationResult<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJSON(text));
+  } catch (err) {
+    return {
+      ok: false,
+      error: `response is not valid JSON (${
+        err instanceof Error ? err.message : String(err)
+      })`,
+    };
+  }
+  return schema.validate(value);
+}
+
+// Helper to call the LLM for a JSON response. A response that doesn't
+// match `schema` is sent back with the validation errors, up to
+// LLM_JSON_REPAIR_ATTEMPTS times, before the call fails.
+export async function callLLMForJSON<T>(
+  llm: LLMContext,
+  { prompt, options }: RenderedPrompt,
+  schema: ResponseSchema<T>
+): Promise<{ value: T; sources: LLMSource[] }> {
+  let request = prompt;
+  for (let attempt = 1; ; attempt++) {
+    const { text, sources } = await callLLM(llm, request, options);
+    const result = parseLLMJSON(schema, text);
+    if (result.ok) return { value: result.value, sources };
+
+    if (attempt > env.LLM_JSON_REPAIR_ATTEMPTS) {
+      throw new Error(
+        `${schema.name} response is invalid after ${attempt} attempt(s): ${result.error}`
+      );
+    }
+    log.warn(
+      {
+        metric: options.metricName,
+        attempt,
+        validationErrors: result.error,
+        responseLength: text.length,
+      },
+      'LLM JSON response failed validation, re-prompting'
+    );
+    request = `${prompt}
+
+Your previous response could not be used:
+${result.error}
+
+Previous response:
+${text}
+
+Respond again with ONLY the corrected JSON object, no other text.`;
+  }
+}
+
 // Helper to extract percentage from text response
 function extractPercentageFromText(text: string): number | null {
   // Look for patterns like "75%", "75 percent", "75-80%", etc.
@@ -176,340 +258,184 @@ function extractPercentageFromText(text: string): number | null {
   return null;
 }
 
-// Generate Pre-PDV Report data using Claude with sequential prompts and context accumulation
+// Pre-PDV steps, named by their checkpoint key
+type PrePDVStepKey =
+  | 'overview'
+  | 'dataReliance'
+  | 'dataAttribute'
+  | 'dataUniqueness'
+  | 'dataScarcity'
+  | 'dataOwnership'
+  | 'dataCollection'
+  | 'summary';
+
+// Steps whose prompt only needs the company overview
+type PrePDVMetricKey = Exclude<
+  PrePDVStepKey,
+  'overview' | 'dataAttribute' | 'summary'
+>;
+
+// Context section written for each analysis step, in the order sections
+// appear in a prompt's context
+const PRE_PDV_SECTIONS: ReadonlyArray<[PrePDVStepKey, string]> = [
+  ['overview', 'Company Overview'],
+  ['dataReliance', 'Data Reliance Analysis'],
+  ['dataAttribute', 'Data Driven Analysis'],
+  ['dataUniqueness', 'Data Uniqueness Analysis'],
+  ['dataScarcity', 'Data Scarcity Analysis'],
+  ['dataOwnership', 'Data Ownership Analysis'],
+  ['dataCollection', 'Data Collection Analysis'],
+];
+
+// Generate Pre-PDV Report data using Claude. Steps run as a dependency
+// graph, so the ones that only need the overview run concurrently.
 async function generatePrePDVData(
-  client: Anthropic,
-  orgName: string
+  llm: LLMContext,
+  orgName: string,
+  checkpoint: PDVCheckpoint,
+  onStep: (
+    step: { current: number; total: number },
+    label: string
+  ) => Promise<void>
 ): Promise<string> {
-  console.log(`\n${'█'.repeat(80)}`);
-  console.log(
-    `🚀 [generatePrePDVData] Starting data generation for: ${orgName}`
-  );
-  console.log(`${'█'.repeat(80)}\n`);
-
-  // Accumulated context from previous responses
-  let accumulatedContext = '';
-
-  // Prompt 1: Company Overview
-  console.log('\n📋 [generatePrePDVData] Step 1/9: Company Overview');
-  const overviewText = await callClaude(
-    client,
-    `Provide a professional 5-line overview for ${orgName}. Focus on their business model, industry and sector position, and key operations.`,
-    { maxTokens: 300, metricName: 'Company Overview' }
-  );
-  accumulatedContext += `\n\n--- Company Overview ---\n${overviewText}`;
-
-  // Sequential metric prompts with accumulated context
-  // Prompt 2: Data Reliance
-  console.log('\n📋 [generatePrePDVData] Step 2/9: Data Reliance');
-  const dataReliance = await callClaude(
-    client,
-    `Based on the following context about ${orgName}:
-${accumulatedContext}
-
-Estimate the data reliance percentage for ${orgName}. Data reliance measures how dependent the company's operations, revenue, and competitive advantage are on data assets.
-
-Provide a CONCISE response with:
-1. **Percentage Estimate**: A specific percentage estimate (e.g., "75%")
-
-2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
-   - How data drives core operations and revenue
-   - Key data dependencies in the business model
-   - Decision-making and infrastructure reliance on data
-
-3. **Key Factors**: List 4-5 specific factors (as bullet points) that influence this percentage for ${orgName}
-
-Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
-    { maxTokens: 1200, metricName: 'Data Reliance' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Reliance response length: ${dataReliance.length} characters`
-  );
-  accumulatedContext += `\n\n--- Data Reliance Analysis ---\n${dataReliance}`;
-
-  // Prompt 3: Data Driven
-  console.log('\n📋 [generatePrePDVData] Step 3/9: Data Driven');
-  const dataAttribute = await callClaude(
-    client,
-    `Based on the following context about ${orgName}:
-${accumulatedContext}
-
-Estimate the data driven percentage for ${orgName}. Data driven measures what percentage of the company's business value can be directly attributed to their data assets.
-
-Provide a CONCISE response with:
-1. **Percentage Estimate**: A specific percentage estimate (e.g., "70%")
-
-2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
-   - How data directly contributes to revenue generation
-   - Key data-driven products or services
-   - Customer value derived from data capabilities
-
-3. **Relationship to Data Reliance**: One sentence on how this relates to data reliance (${
-      extractPercentageFromText(dataReliance) ?? 'previously estimated'
-    }%)
-
-4. **Data Driven Breakdown**: 3-4 bullet points breaking down drivers across business areas
-
-Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
-    { maxTokens: 1200, metricName: 'Data Driven' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Driven response length: ${dataAttribute.length} characters`
-  );
-  accumulatedContext += `\n\n--- Data Driven Analysis ---\n${dataAttribute}`;
-
-  // Prompt 4: Data Uniqueness
-  console.log('\n📋 [generatePrePDVData] Step 4/9: Data Uniqueness');
-  const dataUniqueness = await callClaude(
-    client,
-    `Based on the following context about ${orgName}:
-${accumulatedContext}
-
-Estimate the data uniqueness percentage for ${orgName}. Data uniqueness measures how unique and proprietary the company's data assets are compared to what competitors or the market can access.
-
-Provide a CONCISE response with:
-1. **Percentage Estimate**: A specific percentage estimate (e.g., "60%")
-
-2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
-   - Proprietary data sources and collection methods
-   - Unique data types competitors cannot access
-   - Exclusive partnerships or user-generated data advantages
-
-3. **Uniqueness Factors** (3-4 bullet points):
-   - Key differentiators vs competitors
-   - Barriers to replication and time-based advantages
-
-4. **Commonality Assessment** (2-3 bullet points):
-   - Industry-standard or publicly available data components
-
-Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
-    { maxTokens: 1200, metricName: 'Data Uniqueness' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Uniqueness response length: ${dataUniqueness.length} characters`
-  );
-  accumulatedContext += `\n\n--- Data Uniqueness Analysis ---\n${dataUniqueness}`;
-
-  // Prompt 5: Data Scarcity
-  console.log('\n📋 [generatePrePDVData] Step 5/9: Data Scarcity');
-  const dataScarcity = await callClaude(
-    client,
-    `Based on the following context about ${orgName}:
-${accumulatedContext}
-
-Estimate the data scarcity percentage for ${orgName}. Data scarcity measures how rare or difficult to replicate the company's data assets are in the market.
-
-Provide a CONCISE response with:
-1. **Percentage Estimate**: A specific percentage estimate (e.g., "55%")
-
-2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
-   - Data that is inherently rare in the market
-   - Time, cost, and regulatory barriers to collection
-   - Technical barriers to replication
-
-3. **Scarcity Factors** (3-4 bullet points):
-   - Key market and economic conditions creating scarcity
-
-4. **Abundance Assessment** (2-3 bullet points):
-   - Commonly available or purchasable data components
-
-Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
-    { maxTokens: 1200, metricName: 'Data Scarcity' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Scarcity response length: ${dataScarcity.length} characters`
-  );
-  accumulatedContext += `\n\n--- Data Scarcity Analysis ---\n${dataScarcity}`;
-
-  // Prompt 6: Data Ownership
-  console.log('\n📋 [generatePrePDVData] Step 6/9: Data Ownership');
-  const dataOwnership = await callClaude(
-    client,
-    `Based on the following context about ${orgName}:
-${accumulatedContext}
-
-Estimate the data ownership percentage for ${orgName}. Data ownership measures what percentage of their data assets they fully own and control, versus data that is licensed, shared, or has usage restrictions.
-
-Provide a CONCISE response with:
-1. **Percentage Estimate**: A specific percentage estimate (e.g., "80%")
-
-2. **Detailed Analysis** (3-5 bullet points, each 1-2 sentences):
-   - Fully owned data assets and first-party collection
-   - Licensed or third-party data dependencies
-   - Legal and regulatory ownership considerations
+  log.info(`[generatePrePDVData] Starting data generation for: ${orgName}`);
+
+  // Each step sees the sections of the steps it depends on, in
+  // PRE_PDV_SECTIONS order
+  const contextFrom = (
+    dependsOn: readonly PrePDVStepKey[],
+    outputs: Partial<Record<PrePDVStepKey, CitedText>>
+  ) =>
+    PRE_PDV_SECTIONS.filter(([key]) => dependsOn.includes(key))
+      .map(([key, title]) => `\n\n--- ${title} ---\n${outputs[key]?.text}`)
+      .join('');
+
+  // Progress counts steps as they start, so it stays monotonic
+  const totalSteps = 8;
+  let startedSteps = 0;
+
+  // Claude call whose output is checkpointed under `key`, so a retried
+  // job skips the steps that already completed
+  const claudeStep = (
+    key: PrePDVStepKey,
+    dependsOn: readonly PrePDVStepKey[],
+    render: (
+      outputs: Partial<Record<PrePDVStepKey, CitedText>>
+    ) => RenderedPrompt,
+    call = (rendered: RenderedPrompt) =>
+      callLLM(llm, rendered.prompt, rendered.options)
+  ): GraphStep<PrePDVStepKey, CitedText> => ({
+    dependsOn,
+    run: async (outputs) => {
+      const rendered = render(outputs);
+      const { options } = rendered;
+      startedSteps += 1;
+      log.info(
+        `[generatePrePDVData] Step ${startedSteps}/${totalSteps}: ${options.metricName}`
+      );
+      await onStep(
+        { current: startedSteps, total: totalSteps },
+        options.metricName
+      );
 
-3. **Ownership Structure** (3-4 bullet points):
-   - Breakdown of owned vs licensed vs shared data
-   - Strategic importance of proprietary data
+      const output = await checkpoint.step(key, () => call(rendered));
+      log.info(
+        `[generatePrePDVData] ${options.metricName} response length: ${output.text.length} characters`
+      );
+      return output;
+    },
+  });
 
-4. **Limitations and Risks** (2-3 bullet points):
-   - Key usage restrictions and contractual limitations
-   - Regulatory constraints and ownership gaps
+  // The metric analyses only need the overview, so they run concurrently.
+  // Data Driven refers back to the Data Reliance estimate, and the summary
+  // needs everything.
+  const metricStep = (key: PrePDVMetricKey) =>
+    claudeStep(key, ['overview'], (outputs) =>
+      llm.prompts.render(`prePDV.${key}` as const, {
+        orgName,
+        context: contextFrom(['overview'], outputs),
+      })
+    );
+  const allSections = PRE_PDV_SECTIONS.map(([key]) => key);
 
-Keep the total response under 400 words. Format with clear markdown headers (##) for each section.`,
-    { maxTokens: 1200, metricName: 'Data Ownership' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Ownership response length: ${dataOwnership.length} characters`
-  );
-  accumulatedContext += `\n\n--- Data Ownership Analysis ---\n${dataOwnership}`;
-
-  // Prompt 8: Data Collection Analysis (with full context)
-  console.log('\n📋 [generatePrePDVData] Step 8/9: Data Collection');
-  const dataCollection = await callClaude(
-    client,
-    `Based on the following comprehensive context about ${orgName}:
-${accumulatedContext}
-
-Provide a concise analysis of the data collected by ${orgName} as 4-6 bullet points covering:
-- Types of unique data they collect
-- Environmental/ESG data considerations
-- Data collection methods and sources
-- How their data collection supports the metrics analyzed above
-
-Keep each bullet to 1-2 sentences. Total response under 200 words. Format with markdown bullet points (- ).`,
-    { maxTokens: 800, metricName: 'Data Collection' }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Collection response length: ${dataCollection.length} characters`
+  const outputs = await runStepGraph<PrePDVStepKey, CitedText>(
+    {
+      overview: claudeStep('overview', [], () =>
+        llm.prompts.render('prePDV.overview', { orgName })
+      ),
+      dataReliance: metricStep('dataReliance'),
+      dataAttribute: claudeStep(
+        'dataAttribute',
+        ['overview', 'dataReliance'],
+        (outputs) =>
+          llm.prompts.render('prePDV.dataAttribute', {
+            orgName,
+            context: contextFrom(['overview', 'dataReliance'], outputs),
+            dataReliancePercent: String(
+              extractPercentageFromText(outputs.dataReliance?.text ?? '') ??
+                'previously estimated'
+            ),
+          })
+      ),
+      dataUniqueness: metricStep('dataUniqueness'),
+      dataScarcity: metricStep('dataScarcity'),
+      dataOwnership: metricStep('dataOwnership'),
+      dataCollection: metricStep('dataCollection'),
+      // Checkpointed as the validated JSON
+      summary: claudeStep(
+        'summary',
+        allSections,
+        (outputs) =>
+          llm.prompts.render('prePDV.summary', {
+            orgName,
+            context: contextFrom(allSections, outputs),
+          }),
+        async (rendered) => {
+          const { value, sources } = await callLLMForJSON(
+            llm,
+            rendered,
+            responseSchemas.preADVSummary
+          );
+          return { text: JSON.stringify(value), sources };
+        }
+      ),
+    },
+    env.PDV_LLM_CONCURRENCY
   );
-  accumulatedContext += `\n\n--- Data Collection Analysis ---\n${dataCollection}`;
-
-  // Prompt 9: Data Summary with Table (with full context)
-  console.log('\n📋 [generatePrePDVData] Step 9/9: Data Summary (JSON)');
-  const summaryRaw = await callClaude(
-    client,
-    `Based on the following comprehensive analysis of ${orgName}:
-${accumulatedContext}
-
-Create a powerful and professional data summary for ${orgName} including their competitive advantages.
-
-IMPORTANT: Use the specific percentage values from the analysis above for each metric.
-
-Provide the response in JSON format:
-{
-  "summary": "Professional summary text synthesizing all the above analysis",
-  "competitiveAdvantages": ["advantage 1", "advantage 2", ...],
-  "dataProfileTable": [
-    {"dataMetric": "Data Reliance", "estimate": "XX%", "strategicSignificance": "significance"},
-    {"dataMetric": "Data Scarcity", "estimate": "XX%", "strategicSignificance": "significance"},
-    {"dataMetric": "Data Ownership", "estimate": "XX%", "strategicSignificance": "significance"},
-    {"dataMetric": "Data Uniqueness", "estimate": "XX%", "strategicSignificance": "significance"}
-  ],
-  "extractedMetrics": {
-    "dataReliancePercent": <number from analysis>,
-    "dataAttributePercent": <number from analysis>,
-    "dataUniquenessPercent": <number from analysis>,
-    "dataScarcityPercent": <number from analysis>,
-    "dataOwnershipPercent": <number from analysis>
+  const overviewText = outputs.overview.text;
+  const dataReliance = outputs.dataReliance.text;
+  const dataAttribute = outputs.dataAttribute.text;
+  const dataUniqueness = outputs.dataUniqueness.text;
+  const dataScarcity = outputs.dataScarcity.text;
+  const dataOwnership = outputs.dataOwnership.text;
+  const dataCollection = outputs.dataCollection.text;
+  const summaryRaw = outputs.summary.text;
+
+  // Web pages behind each section, for the report's Sources appendix
+  const sources: Record<string, LLMSource[]> = {};
+  for (const [key, title] of [
+    ...PRE_PDV_SECTIONS,
+    ['summary', 'Summary'] as const,
+  ]) {
+    if (outputs[key].sources.length > 0) sources[title] = outputs[key].sources;
   }
-}
 
-Respond with ONLY the JSON object, no other text.`,
+  const parsedSummary = parseLLMJSON(responseSchemas.preADVSummary, summaryRaw);
+  if (!parsedSummary.ok) {
+    throw new Error(`Pre-PDV summary is invalid: ${parsedSummary.error}`);
+  }
+  const summaryJson = parsedSummary.value;
+  log.debug(
     {
-      skipSanitization: true,
-      systemPrompt:
-        'You are a JSON data formatter. Respond with ONLY valid JSON. No explanatory text, no markdown code blocks, just the raw JSON object.',
-      metricName: 'Data Summary JSON',
-    }
-  );
-  console.log(
-    `📊 [generatePrePDVData] Summary JSON raw length: ${summaryRaw.length} characters`
+      summaryLength: summaryJson.summary.length,
+      competitiveAdvantages: summaryJson.competitiveAdvantages.length,
+      dataProfileRows: summaryJson.dataProfileTable.length,
+      extractedMetrics: summaryJson.extractedMetrics,
+    },
+    '[generatePrePDVData] Summary JSON validated'
   );
 
-  let summaryJson: {
-    summary: string;
-    competitiveAdvantages: string[];
-    dataProfileTable: Array<{
-      dataMetric: string;
-      estimate: string;
-      strategicSignificance: string;
-    }>;
-    extractedMetrics?: {
-      dataReliancePercent?: number;
-      dataAttributePercent?: number;
-      dataUniquenessPercent?: number;
-      dataScarcityPercent?: number;
-      dataOwnershipPercent?: number;
-    };
-  };
-  try {
-    const extractedJson = extractJSON(summaryRaw);
-    console.log(
-      `📋 [generatePrePDVData] Extracted JSON length: ${extractedJson.length} characters`
-    );
-    console.log(
-      `📋 [generatePrePDVData] Extracted JSON preview: ${extractedJson.substring(
-        0,
-        500
-      )}...`
-    );
-    summaryJson = JSON.parse(extractedJson);
-    console.log(`✅ [generatePrePDVData] JSON parsed successfully`);
-    console.log(
-      `📋 [generatePrePDVData] Summary length: ${
-        summaryJson.summary?.length ?? 0
-      } characters`
-    );
-    console.log(
-      `📋 [generatePrePDVData] Competitive advantages count: ${
-        summaryJson.competitiveAdvantages?.length ?? 0
-      }`
-    );
-    console.log(
-      `📋 [generatePrePDVData] Data profile table count: ${
-        summaryJson.dataProfileTable?.length ?? 0
-      }`
-    );
-    console.log(
-      `📋 [generatePrePDVData] Extracted metrics:`,
-      JSON.stringify(summaryJson.extractedMetrics, null, 2)
-    );
-  } catch (parseError) {
-    console.error(
-      `❌ [generatePrePDVData] Failed to parse summary JSON:`,
-      parseError
-    );
-    console.error(
-      `📋 [generatePrePDVData] Raw summary that failed to parse: ${summaryRaw}`
-    );
-    summaryJson = {
-      summary: '',
-      competitiveAdvantages: [],
-      dataProfileTable: [],
-    };
-  }
-
   // Extract percentages from text responses as fallback
-  console.log(
-    `\n📊 [generatePrePDVData] Extracting percentages from text responses...`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Reliance text extraction: ${extractPercentageFromText(
-      dataReliance
-    )}`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Attribute text extraction: ${extractPercentageFromText(
-      dataAttribute
-    )}`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Uniqueness text extraction: ${extractPercentageFromText(
-      dataUniqueness
-    )}`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Scarcity text extraction: ${extractPercentageFromText(
-      dataScarcity
-    )}`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Ownership text extraction: ${extractPercentageFromText(
-      dataOwnership
-    )}`
-  );
-
   const extractedMetrics = {
     dataReliancePercent:
       summaryJson.extractedMetrics?.dataReliancePercent ??
@@ -528,8 +454,10 @@ Respond with ONLY the JSON object, no other text.`,
       extractPercentageFromText(dataOwnership),
   };
 
-  console.log(`\n📊 [generatePrePDVData] FINAL EXTRACTED METRICS:`);
-  console.log(JSON.stringify(extractedMetrics, null, 2));
+  log.info(
+    { extractedMetrics },
+    '[generatePrePDVData] Final extracted metrics'
+  );
 
   const preADVData = {
     overview: overviewText,
@@ -541,41 +469,30 @@ Respond with ONLY the JSON object, no other text.`,
     dataCollection,
     summary: summaryJson,
     extractedMetrics,
+    sources,
   };
 
-  console.log(`\n${'█'.repeat(80)}`);
-  console.log(
-    `✅ [generatePrePDVData] Completed data generation for: ${orgName}`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Overview length: ${overviewText.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Reliance length: ${dataReliance.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Attribute length: ${dataAttribute.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Uniqueness length: ${dataUniqueness.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Scarcity length: ${dataScarcity.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Ownership length: ${dataOwnership.length} chars`
-  );
-  console.log(
-    `📊 [generatePrePDVData] Data Collection length: ${dataCollection.length} chars`
+  log.info(
+    {
+      lengths: {
+        overview: overviewText.length,
+        dataReliance: dataReliance.length,
+        dataAttribute: dataAttribute.length,
+        dataUniqueness: dataUniqueness.length,
+        dataScarcity: dataScarcity.length,
+        dataOwnership: dataOwnership.length,
+        dataCollection: dataCollection.length,
+      },
+    },
+    `[generatePrePDVData] Completed data generation for: ${orgName}`
   );
-  console.log(`${'█'.repeat(80)}\n`);
 
   return JSON.stringify(preADVData);
 }
 
 // Generate Supplementary PDV Report data using Claude
 async function generateSupplementaryData(
-  client: Anthropic,
+  llm: LLMContext,
   orgName: string,
   preADVDataString?: string
 ): Promise<string> {
@@ -632,109 +549,45 @@ Extracted Metrics:
 === END PRE-PDV CONTEXT ===
 `;
     } catch {
-      console.warn('Failed to parse preADVData for supplementary context');
+      log.warn('Failed to parse preADVData for supplementary context');
     }
   }
 
-  console.log(`\n${'█'.repeat(80)}`);
-  console.log(
-    `🚀 [generateSupplementaryData] Starting supplementary data generation for: ${orgName}`
+  log.info(
+    `[generateSupplementaryData] Starting supplementary data generation for: ${orgName}`
   );
-  console.log(
-    `📊 [generateSupplementaryData] PreADV context length: ${preADVContext.length} characters`
+  log.info(
+    `[generateSupplementaryData] PreADV context length: ${preADVContext.length} characters`
   );
-  console.log(`${'█'.repeat(80)}\n`);
-
-  const comparisonRaw = await callClaude(
-    client,
-    `${preADVContext}
-
-For ${orgName}, identify the 5 closest competitors in the same sector and create a comprehensive Data Profile and Competitive Moat comparison across 5 data metrics - data reliance, data attribution, data uniqueness, data scarcity, and data ownership percentages.
-
-IMPORTANT: Use the metrics from the Pre-PDV Analysis Context above to ensure consistency. The organization values in the comparison should match the extracted metrics. Name the 5 closest real competitors in the same sector.
-
-Provide response in JSON format:
-{
-  "sectorName": "sector name",
-  "competitors": ["Competitor 1 Name", "Competitor 2 Name", "Competitor 3 Name", "Competitor 4 Name", "Competitor 5 Name"],
-  "comparisonTable": [
-    {"dataMetric": "Data Reliance", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
-    {"dataMetric": "Data Driven", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
-    {"dataMetric": "Data Uniqueness", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
-    {"dataMetric": "Data Scarcity", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"},
-    {"dataMetric": "Data Ownership", "organizationValue": "<use extracted metric>%", "competitor1Value": "value%", "competitor2Value": "value%", "competitor3Value": "value%", "competitor4Value": "value%", "competitor5Value": "value%"}
-  ],
-  "qualitativeComparison": "A concise analysis (max 150 words) structured as: one short intro sentence, then 4-6 bullet points (each starting with '- ') highlighting key competitive differentiators and data moat insights vs the 5 competitors. Keep each bullet to 1-2 sentences max.",
-  "radarChartData": {
-    "dataMetrics": ["Data Reliance", "Data Driven", "Data Uniqueness", "Data Scarcity", "Data Ownership"],
-    "organizationValues": [<numeric values matching extracted metrics>],
-    "competitor1Values": [<numeric values for competitor 1>],
-    "competitor2Values": [<numeric values for competitor 2>],
-    "competitor3Values": [<numeric values for competitor 3>],
-    "competitor4Values": [<numeric values for competitor 4>],
-    "competitor5Values": [<numeric values for competitor 5>]
-  }
-}
 
-Respond with ONLY the JSON object, no other text.`,
+  const comparison = llm.prompts.render('supplementary.comparison', {
+    orgName,
+    preADVContext,
+  });
+  const { value: comparisonJson, sources } = await callLLMForJSON(
+    llm,
+    comparison,
+    responseSchemas.supplementaryData
+  );
+  log.debug(
     {
-      skipSanitization: true,
-      systemPrompt:
-        'You are a JSON data formatter. Respond with ONLY valid JSON. No explanatory text, no markdown code blocks, just the raw JSON object.',
-      metricName: 'Supplementary Comparison JSON',
-    }
+      sectorName: comparisonJson.sectorName,
+      geography: comparisonJson.geographyName,
+      comparisonRows: comparisonJson.comparisonTable.length,
+      qualitativeComparisonLength: comparisonJson.qualitativeComparison.length,
+      radarChartData: comparisonJson.radarChartData,
+    },
+    '[generateSupplementaryData] Comparison JSON validated'
   );
 
-  console.log(
-    `📊 [generateSupplementaryData] Comparison JSON raw length: ${comparisonRaw.length} characters`
+  log.info(
+    `[generateSupplementaryData] Completed supplementary data generation`
   );
 
-  let comparisonJson: Record<string, unknown>;
-  try {
-    const extractedJson = extractJSON(comparisonRaw);
-    console.log(
-      `📋 [generateSupplementaryData] Extracted JSON length: ${extractedJson.length} characters`
-    );
-    comparisonJson = JSON.parse(extractedJson);
-    console.log(`✅ [generateSupplementaryData] JSON parsed successfully`);
-    console.log(
-      `📊 [generateSupplementaryData] Sector name: ${comparisonJson.sectorName}`
-    );
-    console.log(
-      `📊 [generateSupplementaryData] Geography: ${comparisonJson.geographyName}`
-    );
-    console.log(
-      `📊 [generateSupplementaryData] Comparison table entries: ${
-        (comparisonJson.comparisonTable as unknown[])?.length ?? 0
-      }`
-    );
-    console.log(
-      `📊 [generateSupplementaryData] Qualitative comparison length: ${
-        (comparisonJson.qualitativeComparison as string)?.length ?? 0
-      } chars`
-    );
-    console.log(
-      `📊 [generateSupplementaryData] Radar chart data:`,
-      JSON.stringify(comparisonJson.radarChartData, null, 2)
-    );
-  } catch (parseError) {
-    console.error(
-      `❌ [generateSupplementaryData] Failed to parse comparison JSON:`,
-      parseError
-    );
-    console.error(
-      `📋 [generateSupplementaryData] Raw comparison that failed to parse: ${comparisonRaw}`
-    );
-    comparisonJson = {};
-  }
-
-  console.log(`\n${'█'.repeat(80)}`);
-  console.log(
-    `✅ [generateSupplementaryData] Completed supplementary data generation`
-  );
-  console.log(`${'█'.repeat(80)}\n`);
-
-  return JSON.stringify(comparisonJson);
+  return JSON.stringify({
+    ...comparisonJson,
+    sources: sources.length > 0 ? { 'Data Metric Comparison': sources } : {},
+  });
 }
 
 // Type for preADVData extracted metrics
@@ -758,16 +611,14 @@ function isUnrealisticPercent(value: number | undefined | null): boolean {
 
 // Generate PDV calculation data using Claude
 async function generatePDVCalculation(
-  client: Anthropic,
+  llm: LLMContext,
   pdvAnswers: Array<{ question: string; answer: string }>,
   preADVDataString?: string
 ): Promise<{
   advReportData: string;
   lowerADVRange: string;
   upperADVRange: string;
-} | null> {
-  if (pdvAnswers.length === 0) return null;
-
+}> {
   // Parse preADVData for fallback values
   let preADVMetrics: PreADVExtractedMetrics = {};
   if (preADVDataString) {
@@ -775,70 +626,37 @@ async function generatePDVCalculation(
       const preADVData = JSON.parse(preADVDataString) as PreADVData;
       preADVMetrics = preADVData.extractedMetrics ?? {};
     } catch {
-      console.warn('Failed to parse preADVData for fallback metrics');
+      log.warn('Failed to parse preADVData for fallback metrics');
     }
   }
 
   const getAnswer = (q: string) =>
     pdvAnswers.find((a) => a.question === q)?.answer ?? 'Not provided';
 
-  const extractPrompt = `You are a data extraction expert. Extract structured numerical data from the following user responses.
-
-Questions and Answers:
-1. How long has your business been collecting data?
-   Answer: ${getAnswer('How long has your business been collecting data?')}
-
-2. What percentage of business is attributable to data?
-   Answer: ${getAnswer('What percentage of business is attributable to data?')}
-
-3. What percentage of business is data reliant?
-   Answer: ${getAnswer('What percentage of business is data reliant?')}
-
-4. What is the current market value of your business?
-   Answer: ${getAnswer('What is the current market value of your business?')}
-
-5. For each year collecting data, what was the company valuation each year?
-   Answer: ${getAnswer(
-     'For each year collecting data, what was the company valuation each year?'
-   )}
-
-Extract and provide the following in JSON format:
-{
-  "yearsCollectingData": <number of years as integer>,
-  "dataAttributablePercent": <percentage as decimal, e.g., 75 for 75%>,
-  "dataReliancePercent": <percentage as decimal, e.g., 80 for 80%>,
-  "currentCompanyValue": <current market value as number without commas or currency symbols>,
-  "yearlyValuations": [<array of company valuations for each year, starting from first year of data collection to present. If not provided by user, calculate: start at 10% of current value, increase by 10% of current value each year until reaching current value, then hold at current value>]
-}
-
-Important:
-- All percentages should be decimals (e.g., 75 not 0.75)
-- All monetary values should be numbers without commas or symbols
-- yearlyValuations should be an array with length equal to yearsCollectingData
-- Current year is ${new Date().getFullYear()}
-
-Respond with ONLY the JSON object, no other text.`;
-
-  const extractRaw = await callClaude(client, extractPrompt, {
-    skipSanitization: true,
-    systemPrompt:
-      'You are a data extraction expert. Extract structured numerical data from unstructured text. Always respond with valid JSON only. No explanatory text.',
+  const extraction = llm.prompts.render('pdvCalculation.extraction', {
+    yearsCollectingAnswer: getAnswer(
+      'How long has your business been collecting data?'
+    ),
+    dataAttributableAnswer: getAnswer(
+      'What percentage of business is attributable to data?'
+    ),
+    dataReliantAnswer: getAnswer(
+      'What percentage of business is data reliant?'
+    ),
+    marketValueAnswer: getAnswer(
+      'What is the current market value of your business?'
+    ),
+    yearlyValuationsAnswer: getAnswer(
+      'For each year collecting data, what was the company valuation each year?'
+    ),
+    currentYear: String(new Date().getFullYear()),
   });
 
-  let extractedData: {
-    yearsCollectingData: number;
-    dataAttributablePercent: number;
-    dataReliancePercent: number;
-    currentCompanyValue: number;
-    yearlyValuations: number[];
-  };
-
-  try {
-    extractedData = JSON.parse(extractJSON(extractRaw));
-  } catch {
-    console.error('Failed to parse PDV extraction response');
-    return null;
-  }
+  const { value: extractedData } = await callLLMForJSON(
+    llm,
+    extraction,
+    responseSchemas.pdvExtraction
+  );
 
   // Use preADVData values if extractedData has unrealistic values (0 or 100%)
   const dataReliancePercent = isUnrealisticPercent(
@@ -970,6 +788,10 @@ Respond with ONLY the JSON object, no other text.`;
 export interface PDVReportJobResult {
   success: boolean;
   error?: string;
+  /** Outcome of each pipeline stage, as far as the job got */
+  stageOutcomes: StageOutcomes;
+  /** True when at least one stage failed but the report was still saved */
+  partialFailure: boolean;
   emailData?: {
     subdomain: string;
     reportId: string;
@@ -981,14 +803,22 @@ export interface PDVReportJobResult {
     /**
      * Filename for the PDF attachment. The actual base64 content is read
      * from `Report.pdfReportData` at send time so admin edits made during
-     * the 48-hour delay window are reflected in the delivered email.
+     * the delivery delay window are reflected in the delivered email.
      */
     attachmentName: string;
   };
 }
 
+/**
+ * Run the PDV pipeline for a report. Until `finalAttempt`, transient
+ * failures (LLM provider or network unavailable) throw so BullMQ retries
+ * the job, which resumes from the checkpoint; on the final attempt the
+ * report is saved with whatever stages completed.
+ */
 export async function processPDVReportJob(
-  jobData: PDVReportJobData
+  jobData: PDVReportJobData,
+  reportProgress: ProgressReporter = noopProgressReporter,
+  finalAttempt = true
 ): Promise<PDVReportJobResult> {
   const {
     reportId,
@@ -1001,63 +831,94 @@ export async function processPDVReportJob(
     platformId,
   } = jobData;
 
-  console.log(
-    `🚀 Starting PDV report generation for ${orgName} (report: ${reportId})`
+  log.info(
+    `Starting PDV report generation for ${orgName} (report: ${reportId})`
   );
 
-  const client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+  const llm: LLMContext = {
+    client: getLLMClient(),
+    settings: await resolvePlatformLLMSettings(platformId),
+    prompts: await PromptSet.load(platformId),
+    recordUsage: createClaudeUsageRecorder({ reportId, platformId }),
+  };
+  // Outputs of stages completed by an earlier attempt are reused
+  const checkpoint = await PDVCheckpoint.load(reportId, {
+    orgName,
+    pdvAnswers,
+    promptVersions: llm.prompts.versions,
+  });
 
   let preADVReportData = '';
   let supplementaryADVReportData = '';
   let advReportData = '';
   let lowerADVRange = '';
   let upperADVRange = '';
+  const stageOutcomes: StageOutcomes = {};
+
+  // Run a stage and record its outcome. Until the final attempt, a stage
+  // that failed transiently fails the job instead, so BullMQ retries it
+  const isTransient = (error: unknown) =>
+    llm.client.isTransientError(error) || isNetworkError(error);
+  const stage = async <T>(
+    name: PDVStageName,
+    run: () => Promise<T | null | undefined>
+  ): Promise<T | null> => {
+    const output = await runStage(stageOutcomes, name, run, isTransient);
+    const outcome = stageOutcomes[name];
+    if (!finalAttempt && outcome?.status === 'failed' && outcome.retryable) {
+      throw new Error(`PDV stage ${name} failed: ${outcome.reason}`);
+    }
+    return output;
+  };
 
   try {
     // Step 1: Generate Pre-PDV Report data
-    console.log('📊 Generating Pre-PDV report data...');
-    try {
-      preADVReportData = await generatePrePDVData(client, orgName);
-    } catch (error) {
-      console.error('Error generating Pre-PDV report:', error);
-    }
+    log.info('Generating Pre-PDV report data...');
+    preADVReportData =
+      (await stage('prePDV', () =>
+        checkpoint.stage('prePDV', () =>
+          generatePrePDVData(llm, orgName, checkpoint, (step, label) =>
+            reportProgress('PRE_PDV', label, step)
+          )
+        )
+      )) ?? '';
 
     // Step 2: Generate Supplementary PDV Report data (with preADV context for consistency)
-    console.log('📈 Generating Supplementary PDV report data...');
-    try {
-      supplementaryADVReportData = await generateSupplementaryData(
-        client,
-        orgName,
-        preADVReportData
+    log.info('Generating Supplementary PDV report data...');
+    await reportProgress('SUPPLEMENTARY', 'Generating supplementary data');
+    supplementaryADVReportData =
+      (await stage('supplementary', () =>
+        checkpoint.stage('supplementary', () =>
+          generateSupplementaryData(llm, orgName, preADVReportData)
+        )
+      )) ?? '';
+
+    // Step 3: Generate PDV calculation if enabled and answered
+    if (enableADV && pdvAnswers.length > 0) {
+      log.info('Generating PDV calculation...');
+      await reportProgress('PDV_CALCULATION', 'Calculating PDV');
+      // Pass preADVReportData for fallback values when user input is unrealistic
+      const pdvResult = await stage('pdvCalculation', () =>
+        checkpoint.stage('pdvCalculation', () =>
+          generatePDVCalculation(llm, pdvAnswers, preADVReportData)
+        )
       );
-    } catch (error) {
-      console.error('Error generating Supplementary report:', error);
-    }
-
-    // Step 3: Generate PDV calculation if enabled
-    if (enableADV) {
-      console.log('🔢 Generating PDV calculation...');
-      try {
-        // Pass preADVReportData for fallback values when user input is unrealistic
-        const pdvResult = await generatePDVCalculation(
-          client,
-          pdvAnswers,
-          preADVReportData
-        );
-        if (pdvResult) {
-          advReportData = pdvResult.advReportData;
-          lowerADVRange = pdvResult.lowerADVRange;
-          upperADVRange = pdvResult.upperADVRange;
-        }
-      } catch (error) {
-        console.error('Error generating PDV calculation:', error);
+      if (pdvResult) {
+        advReportData = pdvResult.advReportData;
+        lowerADVRange = pdvResult.lowerADVRange;
+        upperADVRange = pdvResult.upperADVRange;
       }
+    } else {
+      stageOutcomes.pdvCalculation = {
+        status: 'skipped',
+        reason: enableADV ? 'No PDV answers' : 'ADV disabled for this report',
+      };
     }
 
     // Step 4: Generate PDF
-    console.log('📄 Generating PDF...');
-    let pdfReportData: string | null = null;
-    try {
+    log.info('Generating PDF...');
+    await reportProgress('PDF', 'Generating PDF');
+    const pdfReportData = await stage('pdf', async () => {
       const parsedPreADV = preADVReportData
         ? JSON.parse(preADVReportData)
         : null;
@@ -1075,13 +936,13 @@ export async function processPDVReportJob(
 
       const arrayBuffer = await pdfBlob.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
-      pdfReportData = buffer.toString('base64');
-    } catch (error) {
-      console.error('Error generating PDF:', error);
-    }
+      return buffer.toString('base64');
+    });
+    const partialFailure = failedStages(stageOutcomes).length > 0;
 
     // Step 5: Update the Report in the database
-    console.log('💾 Updating report in database...');
+    log.info('Updating report in database...');
+    await reportProgress('DB_UPDATE', 'Saving report');
     await db.report.update({
       where: { id: reportId },
       data: {
@@ -1091,6 +952,11 @@ export async function processPDVReportJob(
         lowerADVRange: lowerADVRange || null,
         upperADVRange: upperADVRange || null,
         pdfReportData: pdfReportData,
+        stageOutcomes,
+        promptVersions: llm.prompts.versions,
+        // Keep the checkpoint while any stage failed, so a retry only
+        // redoes the stages that failed
+        pdvCheckpoint: partialFailure ? undefined : CLEARED_CHECKPOINT,
       },
     });
 
@@ -1099,34 +965,53 @@ export async function processPDVReportJob(
     // We deliberately do NOT include the PDF in the job payload. The PDF
     // base64 is stored on Report.pdfReportData and the EmailQueue worker
     // re-fetches the LATEST version at send time. This way, edits an
-    // admin makes during the 48-hour delay window (e.g. via the report
+    // admin makes during the delivery delay window (e.g. via the report
     // editor) are reflected in the email the recipient actually receives.
     //
     // We also pass `attachmentName` so the email worker can build the
-    // Postmark Attachments[] entry without baking it into the payload.
+    // attachment entry without baking it into the payload.
     if (pdfReportData && userEmail) {
-      console.log('📧 Scheduling email delivery...');
+      log.info('Scheduling email delivery...');
+      await reportProgress('EMAIL_SCHEDULING', 'Scheduling email delivery');
       const reportTitle = `PDV Report - ${orgName}`;
+      const email = await renderEmail(
+        'PDV_REPORT_READY',
+        { reportTitle, orgName },
+        platformId
+      );
 
       return {
         success: true,
+        stageOutcomes,
+        partialFailure,
         emailData: {
           subdomain,
           reportId,
-          fromEmail: 'james@12butterflies.life',
+          fromEmail: email.from,
           toEmail: userEmail,
-          subject: `Your ${reportTitle} is Ready`,
-          htmlBody: generateEmailHTML(reportTitle, orgName),
-          textBody: generateEmailText(reportTitle, orgName),
+          subject: email.subject,
+          htmlBody: email.htmlBody,
+          textBody: email.textBody,
           attachmentName: `${reportTitle}.pdf`,
         },
       };
     }
 
-    console.log(`✅ PDV report generation completed for ${orgName}`);
-    return { success: true };
+    log.info(`PDV report generation completed for ${orgName}`);
+    return { success: true, stageOutcomes, partialFailure };
   } catch (error) {
-    console.error(`❌ PDV report generation failed for ${orgName}:`, error);
+    // Leave the report and its checkpoint as they are; BullMQ retries
+    if (
+      !finalAttempt &&
+      (retryableStages(stageOutcomes).length > 0 || isTransient(error))
+    ) {
+      log.warn(
+        { err: error },
+        `PDV report generation for ${orgName} failed transiently, will retry`
+      );
+      throw error;
+    }
+    log.error({ err: error }, `PDV report generation failed for ${orgName}`);
 
     // Update report with error status
     try {
@@ -1139,138 +1024,14 @@ export async function processPDVReportJob(
         },
       });
     } catch (dbError) {
-      console.error('Failed to update report error status:', dbError);
+      log.error({ err: dbError }, 'Failed to update report error status');
     }
 
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      stageOutcomes,
+      partialFailure: false,
     };
   }
 }
-
-function generateEmailHTML(reportTitle: string, orgName: string): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Your ${reportTitle} is Ready</title>
-        <style>
-          body {
-            font-family: 'Avenir Next', 'Avenir', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
-            font-size: 11pt;
-            line-height: 1.6;
-            color: #1E293B;
-            margin: 0;
-            padding: 0;
-            background-color: #f5f7fa;
-          }
-          .container { max-width: 600px; margin: 0 auto; padding: 32px 16px; }
-          .email-card {
-            background: #ffffff;
-            border-radius: 0;
-            overflow: hidden;
-          }
-          .header {
-            background: linear-gradient(180deg, #b8d4f0 0%, #d4e4f6 50%, #eaf1fb 100%);
-            padding: 36px 40px 28px 40px;
-            text-align: center;
-          }
-          .header img {
-            height: 44px;
-            width: auto;
-          }
-          .content {
-            padding: 40px 40px 32px 40px;
-          }
-          .content p {
-            color: #1E293B;
-            margin: 0 0 16px 0;
-          }
-          .feature-list {
-            background: rgba(120, 171, 238, 0.08);
-            padding: 20px 20px 20px 40px;
-            border-radius: 16px;
-            margin: 16px 0;
-          }
-          .feature-list li {
-            color: #1E293B;
-            padding: 6px 0;
-          }
-          .disclaimer {
-            padding: 24px 40px;
-            font-size: 8pt;
-            line-height: 1.5;
-            color: #94A3B8;
-          }
-          .disclaimer p {
-            margin: 0 0 12px 0;
-            color: #94A3B8;
-          }
-          .disclaimer p:last-child {
-            margin-bottom: 0;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="email-card">
-            <div class="header">
-              <img src="https://one2b.io/images/branding/one2b-transparent.png" alt="One2b" />
-              <h1 style="margin: 16px 0 0 0; color: #1E293B; font-size: 24px; font-weight: 600;">Your ${reportTitle} is Ready</h1>
-              <p style="margin: 12px 0 0 0; color: #64748B; font-size: 16px;">${orgName}</p>
-            </div>
-            <div class="content">
-              <p style="color: #1E293B;">Hello,</p>
-              <p style="color: #1E293B;">Your <strong>${reportTitle}</strong> for ${orgName} has been generated and is attached to this email.</p>
-
-              <p style="color: #1E293B;">The report contains a comprehensive assessment of your data assets including:</p>
-              <ul class="feature-list">
-                <li>Preliminary Data Valuation (PDV) calculations</li>
-                <li>Summary of your questionnaire responses</li>
-                <li>Competitive analysis and market positioning</li>
-                <li>Strategic recommendations</li>
-              </ul>
-
-              <p style="color: #1E293B;">If you have any questions about your report, please contact your One2b advisor directly or email us at <a href="mailto:hello@one2b.io" style="color: #6E7F9B;">hello@one2b.io</a>.</p>
-
-              <p style="color: #1E293B; margin-top: 24px;">Best regards,<br><strong>The One2b Team</strong></p>
-            </div>
-            <div class="disclaimer">
-              <p>CONFIDENTIALITY NOTICE: This email and any attachments are confidential and intended solely for the named recipient(s). If received in error, please notify the sender and delete it immediately. Any unauthorized use, disclosure, copying, or distribution is prohibited.</p>
-              <p>DISCLAIMER: Any data valuations, projections, or forward-looking statements referenced herein are indicative only and do not constitute financial, accounting, legal, or investment advice. Valuations are provided &ldquo;as is&rdquo; and may change based on data quality, methodology updates, regulatory considerations, or market conditions. One2b accepts no liability for actions taken in reliance on this information. Personal data is processed in accordance with applicable data protection and privacy laws.</p>
-              <p>&copy; ${new Date().getFullYear()} One2b Pte Ltd. All rights reserved.</p>
-            </div>
-          </div>
-        </div>
-      </body>
-    </html>
-  `;
-}
-
-function generateEmailText(reportTitle: string, orgName: string): string {
-  return `
-Your ${reportTitle} is Ready
-${orgName}
-
-Hello,
-
-Your ${reportTitle} for ${orgName} has been generated and is attached to this email.
-
-The report contains a comprehensive assessment of your data assets including Preliminary Data Valuation (PDV) calculations, a summary of your questionnaire responses, competitive analysis and market positioning, and strategic recommendations.
-
-If you have any questions about your report, please contact your One2b advisor directly or email us at hello@one2b.io.
-
-Best regards,
-The One2b Team
-
----
-CONFIDENTIALITY NOTICE: This email and any attachments are confidential and intended solely for the named recipient(s). If received in error, please notify the sender and delete it immediately. Any unauthorized use, disclosure, copying, or distribution is prohibited.
-
-DISCLAIMER: Any data valuations, projections, or forward-looking statements referenced herein are indicative only and do not constitute financial, accounting, legal, or investment advice. Valuations are provided "as is" and may change based on data quality, methodology updates, regulatory considerations, or market conditions. One2b accepts no liability for actions taken in reliance on this information. Personal data is processed in accordance with applicable data protection and privacy laws.
-
-© ${new Date().getFullYear()} One2b Pte Ltd. All rights reserved.
-  `;
-}
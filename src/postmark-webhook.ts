@@ -0,0 +1,211 @@
+/**
+ * Postmark webhook ingestion (Delivery, Bounce, SpamComplaint, Open).
+ *
+ * The email worker only knows that Postmark *accepted* a message, so it
+ * leaves the report in SENT with `Report.emailId` set to the MessageID.
+ * The events handled here close the loop:
+ *
+ *   Delivery       → DELIVERED, emailDeliveredAt, "delivered" notification
+ *                    (ignored once the report has bounced)
+ *   Bounce         → DELIVERY_FAILED, emailDeliveryError, "bounced" notification
+ *   SpamComplaint  → emailSpamComplaintAt (status unchanged — it was delivered)
+ *   Open           → emailOpenedAt (first open only)
+ *
+ * Events for messages that don't belong to a report (e.g. DocuSign
+ * confirmations) are acknowledged and ignored.
+ *
+ * Requests must authenticate with POSTMARK_WEBHOOK_TOKEN or
+ * POSTMARK_WEBHOOK_BASIC_AUTH (see `isAuthorizedPostmarkWebhook`).
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { env } from './env';
+import { db as prismaDb } from './db';
+import { notify } from './notifications/notify';
+import { createLogger } from './logger';
+
+const log = createLogger('postmark-webhook');
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+// Only the fields we use; Postmark sends many more per RecordType
+export interface PostmarkWebhookPayload {
+  RecordType: 'Delivery' | 'Bounce' | 'SpamComplaint' | 'Open' | string;
+  MessageID: string;
+  Recipient?: string; // Delivery, Open
+  Email?: string; // Bounce, SpamComplaint
+  DeliveredAt?: string;
+  BouncedAt?: string;
+  ReceivedAt?: string;
+  Type?: string; // Bounce type, e.g. "HardBounce"
+  Description?: string;
+  Details?: string;
+  FirstOpen?: boolean;
+}
+
+export interface PostmarkWebhookResult {
+  matched: boolean;
+  reportId?: string;
+  recordType: string;
+}
+
+interface ReportRow {
+  id: string;
+  platformId: string | null;
+  deliveryStatus: string;
+  emailOpenedAt: Date | null;
+  organisationWorkflow: { organizationId: string } | null;
+}
+
+export interface PostmarkWebhookAuth {
+  /** Expected x-postmark-webhook-token header */
+  token: string;
+  /** Expected basic auth credentials, "user:password" */
+  basicAuth: string;
+  production: boolean;
+}
+
+const configuredAuth = (): PostmarkWebhookAuth => ({
+  token: env.POSTMARK_WEBHOOK_TOKEN,
+  basicAuth: env.POSTMARK_WEBHOOK_BASIC_AUTH,
+  production: process.env.NODE_ENV === 'production',
+});
+
+const safeEqual = (provided: string | undefined, expected: string) =>
+  provided !== undefined &&
+  provided.length === expected.length &&
+  timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+
+/**
+ * Whether a webhook request carries the configured token header or basic
+ * auth credentials. Without either configured, webhooks can't be told
+ * apart from forged ones, so they are only accepted outside production.
+ */
+export function isAuthorizedPostmarkWebhook(
+  headers: IncomingHttpHeaders,
+  auth: PostmarkWebhookAuth = configuredAuth()
+): boolean {
+  if (!auth.token && !auth.basicAuth) return !auth.production;
+
+  const token = headers['x-postmark-webhook-token'];
+  if (auth.token && typeof token === 'string' && safeEqual(token, auth.token)) {
+    return true;
+  }
+
+  const authorization = headers.authorization;
+  if (auth.basicAuth && authorization?.startsWith('Basic ')) {
+    const credentials = Buffer.from(
+      authorization.slice('Basic '.length),
+      'base64'
+    ).toString('utf8');
+    return safeEqual(credentials, auth.basicAuth);
+  }
+  return false;
+}
+
+const eventTime = (value: string | undefined) =>
+  value ? new Date(value) : new Date();
+
+export async function handlePostmarkWebhook(
+  payload: PostmarkWebhookPayload
+): Promise<PostmarkWebhookResult> {
+  const { RecordType: recordType, MessageID: messageId } = payload;
+
+  const report = (await db.report.findFirst({
+    where: { emailId: messageId },
+    select: {
+      id: true,
+      platformId: true,
+      deliveryStatus: true,
+      emailOpenedAt: true,
+      organisationWorkflow: { select: { organizationId: true } },
+    },
+  })) as ReportRow | null;
+
+  if (!report) {
+    log.info(
+      `Postmark webhook: no report for message ${messageId} (${recordType})`
+    );
+    return { matched: false, recordType };
+  }
+
+  const target = report.organisationWorkflow
+    ? {
+        organizationId: report.organisationWorkflow.organizationId,
+        platformId: String(report.platformId),
+      }
+    : null;
+
+  switch (recordType) {
+    case 'Delivery': {
+      // Postmark doesn't guarantee event order; a bounce is final
+      if (report.deliveryStatus === 'DELIVERY_FAILED') {
+        log.info(
+          `Postmark: ignoring Delivery for report ${report.id}, already bounced`
+        );
+        break;
+      }
+      await db.report.update({
+        where: { id: report.id },
+        data: {
+          deliveryStatus: 'DELIVERED',
+          emailDeliveredAt: eventTime(payload.DeliveredAt),
+          emailDeliveryError: null,
+        },
+      });
+      if (target && report.deliveryStatus !== 'DELIVERED') {
+        await notify('PDV_REPORT_DELIVERED', target, { reportId: report.id });
+      }
+      log.info(`Postmark: report ${report.id} email delivered`);
+      break;
+    }
+
+    case 'Bounce': {
+      const reason = payload.Description ?? payload.Type ?? 'Bounced';
+      await db.report.update({
+        where: { id: report.id },
+        data: {
+          deliveryStatus: 'DELIVERY_FAILED',
+          emailDeliveryError: `${payload.Type ?? 'Bounce'}: ${reason}`,
+        },
+      });
+      if (target) {
+        await notify('PDV_REPORT_EMAIL_BOUNCED', target, {
+          reportId: report.id,
+          recipient: payload.Email ?? 'the recipient',
+          reason,
+        });
+      }
+      log.warn(`Postmark: report ${report.id} email bounced (${payload.Type})`);
+      break;
+    }
+
+    case 'SpamComplaint': {
+      await db.report.update({
+        where: { id: report.id },
+        data: { emailSpamComplaintAt: eventTime(payload.BouncedAt) },
+      });
+      log.warn(`Postmark: report ${report.id} email marked as spam`);
+      break;
+    }
+
+    case 'Open': {
+      // Keep the first open; later opens carry no new information
+      if (!report.emailOpenedAt) {
+        await db.report.update({
+          where: { id: report.id },
+          data: { emailOpenedAt: eventTime(payload.ReceivedAt) },
+        });
+      }
+      break;
+    }
+
+    default:
+      log.info(`Postmark webhook: ignoring ${recordType} event`);
+  }
+
+  return { matched: true, reportId: report.id, recordType };
+}
@@ -1,64 +1,109 @@
-import { ConnectionOptions, Queue, Worker } from 'bullmq';
+import {
+  ConnectionOptions,
+  JobsOptions,
+  Queue,
+  QueueOptions,
+  UnrecoverableError,
+  Worker,
+} from 'bullmq';
 
 import { env } from './env';
-import { ServerClient } from 'postmark';
 import {
   processPDVReportJob,
   type PDVReportJobData,
   type PDVReportJobResult,
 } from './pdv-report/worker';
-import EventEmitter from 'events';
 import { db as prismaDb } from './db';
+import { redisConnection } from './redis';
+import { notify } from './notifications/notify';
+import type { PartialReportEmail } from './notifications/catalogue';
+import { resolveEmailDelay } from './delivery-delay';
+import { getEmailTransport, type EmailAttachment } from './email/transport';
+import { createJobProgressReporter } from './pdv-report/progress';
+import { failedStages } from './pdv-report/stage-outcomes';
+import { createLogger, withCorrelationId, withJobLogContext } from './logger';
+
+const log = createLogger('queue');
 
 // Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const db = prismaDb as any;
 
-const connection: ConnectionOptions = {
-  host: env.REDISHOST,
-  port: env.REDISPORT,
-  username: env.REDISUSER,
-  password: env.REDISPASSWORD,
+const connection: ConnectionOptions = redisConnection;
+
+export const createQueue = (
+  name: string,
+  opts?: Omit<QueueOptions, 'connection'>
+) => new Queue(name, { ...opts, connection });
+
+/**
+ * Default options for EmailQueue jobs. Transient delivery failures are
+ * retried with exponential backoff (delay, 2×delay, 4×delay, …) before
+ * the job is given up on and moved to the dead-letter queue.
+ */
+export const emailJobOptions: JobsOptions = {
+  attempts: env.EMAIL_MAX_ATTEMPTS,
+  backoff: { type: 'exponential', delay: env.EMAIL_BACKOFF_DELAY_MS },
 };
 
-export const createQueue = (name: string) => new Queue(name, { connection });
+/**
+ * Default options for PDVReportQueue jobs. A job whose stages failed
+ * transiently is retried with exponential backoff; the retry resumes
+ * from the report's checkpoint.
+ */
+export const pdvJobOptions: JobsOptions = {
+  attempts: env.PDV_MAX_ATTEMPTS,
+  backoff: { type: 'exponential', delay: env.PDV_BACKOFF_DELAY_MS },
+};
+
+export interface EmailJobData {
+  subdomain: string;
+  reportId: string;
+  fromEmail: string;
+  toEmail: string;
+  subject: string;
+  htmlBody: string;
+  textBody: string;
+  /**
+   * NEW shape — filename only. PDF content is fetched from
+   * `Report.pdfReportData` at send time so admin edits during the
+   * delivery delay window are reflected in the email.
+   */
+  attachmentName?: string;
+  /**
+   * LEGACY shape — caller pre-baked the attachment(s) into the
+   * job payload. Still supported for non-PDV emails coming through
+   * the /add-mailing-job HTTP endpoint.
+   */
+  attachments?: Array<{
+    Name: string;
+    Content: string;
+    ContentID: string;
+    ContentType: string;
+  }>;
+}
+
+/** Payload of a job parked in EmailDeadLetterQueue. */
+export interface DeadLetterEmailJobData {
+  originalJobId: string | undefined;
+  data: EmailJobData;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
 
 export const setupQueueProcessor = async (
   queueName: string,
-  emitter: EventEmitter
+  deadLetterQueue: Queue
 ) => {
   // QueueScheduler is no longer needed in BullMQ v4+
   // Scheduling functionality is now built into the Queue itself
 
-  new Worker(
+  return new Worker(
     queueName,
-    async (job) => {
-      const data = job.data as {
-        subdomain: string;
-        reportId: string;
-        fromEmail: string;
-        toEmail: string;
-        subject: string;
-        htmlBody: string;
-        textBody: string;
-        /**
-         * NEW shape — filename only. PDF content is fetched from
-         * `Report.pdfReportData` at send time so admin edits during the
-         * 48-hour delay window are reflected in the email.
-         */
-        attachmentName?: string;
-        /**
-         * LEGACY shape — caller pre-baked the attachment(s) into the
-         * job payload. Still supported for non-PDV emails coming through
-         * the /add-mailing-job HTTP endpoint.
-         */
-        attachments?: Array<{
-          Name: string;
-          Content: string;
-          ContentID: string;
-          ContentType: string;
-        }>;
-      };
+    withJobLogContext(async (job) => {
+      const data = job.data as EmailJobData;
+      const transport = getEmailTransport();
 
       try {
         // Resolve attachments. Three sources, in priority order:
@@ -70,17 +115,15 @@ export const setupQueueProcessor = async (
         //      this happens for pre-migration PDV jobs that were queued
         //      before attachmentName was added to the payload. Fall back
         //      to a sensible default filename so the PDF still ships.
-        let attachments:
-          | Array<{
-              Name: string;
-              Content: string;
-              ContentID: string;
-              ContentType: string;
-            }>
-          | undefined;
+        let attachments: EmailAttachment[] | undefined;
 
         if (data.attachments && data.attachments.length > 0) {
-          attachments = data.attachments;
+          attachments = data.attachments.map((attachment) => ({
+            filename: attachment.Name,
+            content: attachment.Content,
+            contentType: attachment.ContentType,
+            contentId: attachment.ContentID,
+          }));
         } else if (data.attachmentName || data.reportId) {
           const reportRow = (await (db as any).report.findUnique({
             where: { id: data.reportId },
@@ -106,167 +149,325 @@ export const setupQueueProcessor = async (
 
           attachments = [
             {
-              Name: filename,
-              Content: reportRow.pdfReportData,
-              ContentID: 'adv-report-pdf',
-              ContentType: 'application/pdf',
+              filename,
+              content: reportRow.pdfReportData,
+              contentType: 'application/pdf',
+              contentId: 'adv-report-pdf',
             },
           ];
           if (!data.attachmentName) {
-            console.warn(
-              `📎 Email job for report ${data.reportId} had no attachmentName (legacy shape); attaching PDF as "${filename}"`
+            log.warn(
+              `Email job for report ${data.reportId} had no attachmentName (legacy shape); attaching PDF as "${filename}"`
             );
           }
         }
 
-        const postmarkClient = new ServerClient(env.AUTH_POSTMARK_KEY);
-        const result = await postmarkClient.sendEmail({
-          From: data.fromEmail,
-          To: data.toEmail,
-          Subject: data.subject,
-          HtmlBody: data.htmlBody,
-          TextBody: data.textBody,
-          MessageStream: 'outbound',
-          Attachments: attachments,
+        const result = await transport.send({
+          from: data.fromEmail,
+          to: data.toEmail,
+          subject: data.subject,
+          htmlBody: data.htmlBody,
+          textBody: data.textBody,
+          attachments,
         });
 
-        // Update report with delivery success - directly in DB instead of webhook
-        const report = await (db as any).report.update({
+        // The transport accepting the message is not delivery. Store the
+        // message id so /postmark-webhook can match the Delivery/Bounce
+        // events and move the report to DELIVERED or DELIVERY_FAILED.
+        await (db as any).report.update({
           where: { id: data.reportId },
           data: {
-            emailId: result.MessageID,
-            deliveryStatus: 'DELIVERED',
-          },
-          include: {
-            organisationWorkflow: {
-              select: {
-                organizationId: true,
-              },
-            },
-          },
-        });
-
-        const organizationId =
-          report.organisationWorkflow?.organizationId ?? 'undefined';
-        const platformId = String(report.platformId);
-
-        // Create notification in DB
-        await (db as any).organizationNotification.create({
-          data: {
-            notificationTitle: 'PDV Report Successfully Delivered',
-            notificationDescription:
-              'PDV report has been delivered to your email',
-            refLink: '',
-            notificationRead: false,
-            organizationId,
-            platformId,
+            emailId: result.messageId,
+            deliveryStatus: 'SENT',
+            emailDeliveryError: null,
           },
         });
 
-        // Send real-time notification via SSE
-        emitter.emit(`notificationEvent_${platformId}_${organizationId}`, {
-          notificationTitle: 'PDV Report Successfully Delivered',
-          notificationDescription:
-            'PDV report has been delivered to your email',
-          refLink: '',
-          notificationRead: 'false',
-          organizationId,
-          platformId,
-        });
-
-        console.log(
-          `✅ Email delivered for report ${data.reportId}, messageId: ${result.MessageID}`
+        log.info(
+          `Email sent for report ${data.reportId} via ${transport.name}, messageId: ${result.messageId}`
         );
-        return { jobId: job.id, messageId: result.MessageID };
+        return { jobId: job.id, messageId: result.messageId };
       } catch (e) {
+        const errorMessage =
+          e instanceof Error ? e.message : 'Email delivery failed';
+        const permanent = transport.isPermanentError(e);
+        // attemptsMade counts previous failed attempts, not this one
+        const attempt = job.attemptsMade + 1;
+        const maxAttempts = job.opts.attempts ?? 1;
+        const finalAttempt = permanent || attempt >= maxAttempts;
+
+        if (!finalAttempt) {
+          log.warn(
+            { errorMessage },
+            `Email delivery attempt ${attempt}/${maxAttempts} failed for report ${data.reportId}, will retry`
+          );
+          throw e; // Re-throw so BullMQ schedules the backoff retry
+        }
+
         // Update report with delivery failure - directly in DB instead of webhook
         await (db as any).report.update({
           where: { id: data.reportId },
           data: {
             deliveryStatus: 'DELIVERY_FAILED',
-            emailDeliveryError:
-              e instanceof Error ? e.message : 'Postmark delivery failed',
+            emailDeliveryError: errorMessage,
           },
         });
 
-        console.error(
-          `❌ Email delivery failed for report ${data.reportId}:`,
-          e
+        // Park the exhausted job so it stays visible and can be requeued
+        const deadLetterData: DeadLetterEmailJobData = {
+          originalJobId: job.id,
+          data,
+          failedReason: errorMessage,
+          attemptsMade: attempt,
+          failedAt: new Date().toISOString(),
+        };
+        await deadLetterQueue.add('DeadLetterEmail', deadLetterData);
+
+        log.error(
+          { err: e },
+          `Email delivery failed for report ${data.reportId} after ${attempt} attempt(s), moved to ${deadLetterQueue.name}`
         );
-        throw e; // Re-throw to mark job as failed
+        // Re-throw to mark job as failed; UnrecoverableError skips any
+        // remaining attempts for permanent errors
+        throw permanent ? new UnrecoverableError(errorMessage) : e;
       }
-    },
+    }),
     { connection }
   );
 };
 
+/**
+ * Move a dead-lettered email back onto the EmailQueue for immediate
+ * delivery. Returns the new EmailQueue job id, or null if the
+ * dead-letter job no longer exists.
+ */
+export const requeueDeadLetterEmail = async (
+  deadLetterQueue: Queue,
+  emailQueue: Queue,
+  deadLetterJobId: string
+): Promise<string | null> => {
+  const deadLetterJob = await deadLetterQueue.getJob(deadLetterJobId);
+  if (!deadLetterJob) return null;
+
+  const { data } = deadLetterJob.data as DeadLetterEmailJobData;
+  const emailJob = await emailQueue.add('Email', data);
+
+  if (data.reportId) {
+    await (db as any).report.update({
+      where: { id: data.reportId },
+      data: {
+        bullMQJobId: emailJob.id,
+        deliveryStatus: 'PENDING',
+        emailDeliveryError: null,
+      },
+    });
+  }
+
+  await deadLetterJob.remove();
+  log.info(
+    `Requeued dead-letter email ${deadLetterJobId} as job ${emailJob.id} (report: ${data.reportId})`
+  );
+  return emailJob.id ?? null;
+};
+
+/** Id of the EmailReviewQueue job holding a report's email. */
+export const reviewJobId = (reportId: string) => `review-${reportId}`;
+
+/**
+ * Park a report's email on the EmailReviewQueue. An email held by an
+ * earlier run of the report is replaced, since BullMQ would otherwise
+ * ignore the new job and keep the stale email under the same id.
+ */
+const holdEmailForReview = async (
+  reviewQueue: Queue,
+  reportId: string,
+  emailData: EmailJobData
+) => {
+  const jobId = reviewJobId(reportId);
+  const previous = await reviewQueue.getJob(jobId);
+  if (previous) {
+    await previous.remove();
+    log.info(`Replacing the held email of report ${reportId}`);
+  }
+  await reviewQueue.add('ReviewEmail', withCorrelationId(emailData), {
+    jobId,
+  });
+};
+
+/**
+ * Remove the email an earlier run of a report scheduled, if it hasn't
+ * been sent yet, so a regenerated report isn't emailed twice.
+ */
+const cancelPendingEmail = async (emailQueue: Queue, reportId: string) => {
+  const report = (await (db as any).report.findUnique({
+    where: { id: reportId },
+    select: { bullMQJobId: true },
+  })) as { bullMQJobId: string | null } | null;
+  if (!report?.bullMQJobId) return;
+
+  const previous = await emailQueue.getJob(report.bullMQJobId);
+  if (previous && ['delayed', 'waiting'].includes(await previous.getState())) {
+    await previous.remove();
+    log.info(
+      `Removed email job ${previous.id} of an earlier run of report ${reportId}`
+    );
+  }
+};
+
+/** Tell the admins a report was saved with failed stages. */
+const notifyPartialFailure = (
+  jobData: PDVReportJobData,
+  failed: string[],
+  email: PartialReportEmail
+) =>
+  notify(
+    'PDV_REPORT_NEEDS_REVIEW',
+    {
+      organizationId: jobData.organizationId,
+      platformId: String(jobData.platformId),
+    },
+    { reportId: jobData.reportId, failedStages: failed, email }
+  );
+
+/**
+ * Mark a partially failed report as awaiting review and tell the admins.
+ * `email` says whether its email is parked on the EmailReviewQueue.
+ */
+const flagReportForReview = async (
+  jobData: PDVReportJobData,
+  failed: string[],
+  email: Exclude<PartialReportEmail, 'scheduled'>
+) => {
+  await (db as any).report.update({
+    where: { id: jobData.reportId },
+    data: { deliveryStatus: 'PENDING_REVIEW' },
+  });
+  await notifyPartialFailure(jobData, failed, email);
+};
+
 // PDV Report Queue processor
 export const setupPDVReportProcessor = async (
   pdvQueueName: string,
   emailQueue: Queue,
-  emitter: EventEmitter
+  reviewQueue: Queue
 ) => {
-  new Worker(
+  return new Worker(
     pdvQueueName,
-    async (job) => {
+    withJobLogContext(async (job) => {
       const jobData = job.data as PDVReportJobData;
-      console.log(
-        `🔄 Processing PDV report job ${job.id} for ${jobData.orgName}`
-      );
+      log.info(`Processing PDV report job ${job.id} for ${jobData.orgName}`);
 
       try {
-        const result: PDVReportJobResult = await processPDVReportJob(jobData);
+        const reportProgress = createJobProgressReporter(job, {
+          reportId: jobData.reportId,
+          organizationId: jobData.organizationId,
+          platformId: String(jobData.platformId),
+        });
+        // attemptsMade counts previous failed attempts, not this one
+        const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+        const result: PDVReportJobResult = await processPDVReportJob(
+          jobData,
+          reportProgress,
+          finalAttempt
+        );
 
-        if (result.success && result.emailData) {
-          // Schedule email delivery via the existing EmailQueue with 48-hour delay
-          // 48 hours = 48 * 60 * 60 * 1000 = 172800000 ms
-          const emailJob = await emailQueue.add('Email', result.emailData, {
-            delay: 172800000,
-          });
-          console.log(
-            `📧 Email job ${emailJob.id} scheduled for report ${jobData.reportId}`
+        const failed = failedStages(result.stageOutcomes);
+        const holdForReview =
+          result.partialFailure && env.PDV_PARTIAL_FAILURE_POLICY === 'review';
+
+        if (result.success && result.emailData && holdForReview) {
+          // Park the email until an admin approves it (see
+          // approveReportEmail); nothing is sent in the meantime
+          await holdEmailForReview(
+            reviewQueue,
+            jobData.reportId,
+            result.emailData
           );
+          log.warn(
+            `Report ${jobData.reportId} partially failed (${failed.join(
+              ', '
+            )}), email held for review`
+          );
+          await flagReportForReview(jobData, failed, 'held');
+        } else if (result.success && result.emailData) {
+          if (result.partialFailure) {
+            log.warn(
+              `Report ${jobData.reportId} partially failed (${failed.join(
+                ', '
+              )}), emailing anyway (PDV_PARTIAL_FAILURE_POLICY=send)`
+            );
+          }
+          // Schedule email delivery via the existing EmailQueue. The delay
+          // comes from the request, the platform setting or the global default.
+          const delay = await resolveEmailDelay(jobData.platformId, {
+            deliverAt: jobData.deliverAt,
+            delayMs: jobData.delayMs,
+          });
+          // One email job per run: if this job runs again after the email
+          // was scheduled, the existing email job is kept. A resubmitted
+          // report is a new job under the same id (see addIdempotentJob)
+          // with a new timestamp, so it gets its own email job.
+          const emailJobId = `email-${job.id}-${job.timestamp}`;
+          let emailJob = await emailQueue.getJob(emailJobId);
+          if (emailJob) {
+            log.info(
+              `Email job ${emailJobId} already scheduled for report ${jobData.reportId}`
+            );
+          } else {
+            await cancelPendingEmail(emailQueue, jobData.reportId);
+            emailJob = await emailQueue.add(
+              'Email',
+              withCorrelationId(result.emailData),
+              { delay, jobId: emailJobId }
+            );
+            log.info(
+              `Email job ${emailJob.id} scheduled for report ${jobData.reportId}`
+            );
+          }
 
           // Update the report with the email job ID
           await (db as any).report.update({
             where: { id: jobData.reportId },
             data: { bullMQJobId: emailJob.id },
           });
-        }
-
-        // Send notification that report generation is complete
-        emitter.emit(
-          `notificationEvent_${jobData.platformId}_${jobData.organizationId}`,
-          {
-            notificationTitle: 'PDV Report Generated',
-            notificationDescription:
-              'Your PDV report has been generated successfully. Email delivery has been scheduled.',
-            refLink: '',
-            notificationRead: 'false',
-            organizationId: jobData.organizationId,
-            platformId: jobData.platformId,
+          if (result.partialFailure) {
+            await notifyPartialFailure(jobData, failed, 'scheduled');
           }
-        );
+        } else if (result.partialFailure) {
+          // A failed stage left nothing to email (e.g. the PDF stage), so
+          // there is nothing to hold either; an admin has to step in
+          log.warn(
+            `Report ${jobData.reportId} partially failed (${failed.join(
+              ', '
+            )}), no email to send`
+          );
+          await flagReportForReview(jobData, failed, 'none');
+        }
 
-        // Create notification in DB
-        await (db as any).organizationNotification.create({
-          data: {
-            notificationTitle: 'PDV Report Generated',
-            notificationDescription:
-              'Your PDV report has been generated successfully. Email delivery has been scheduled.',
-            refLink: '',
-            notificationRead: false,
-            organizationId: jobData.organizationId,
-            platformId: String(jobData.platformId),
-          },
-        });
+        // Only a report without failed stages counts as generated
+        if (result.success && !result.partialFailure) {
+          await notify(
+            'PDV_REPORT_GENERATED',
+            {
+              organizationId: jobData.organizationId,
+              platformId: String(jobData.platformId),
+            },
+            {
+              reportId: jobData.reportId,
+              emailScheduled: Boolean(result.emailData),
+            }
+          );
+        }
+        if (result.success) {
+          await reportProgress('COMPLETED', 'Report ready');
+        }
 
         return result;
       } catch (error) {
-        console.error(`❌ PDV report job ${job.id} failed:`, error);
+        log.error({ err: error }, `PDV report job ${job.id} failed`);
         throw error;
       }
-    },
+    }),
     {
       connection,
       concurrency: 2, // Process up to 2 PDV reports at a time
@@ -0,0 +1,26 @@
+/**
+ * Shared Redis connection settings.
+ *
+ * BullMQ queues/workers and the notification pub/sub clients all connect
+ * to the same Redis instance with the same credentials, so the options
+ * live here rather than being rebuilt in every module.
+ */
+
+import Redis, { type RedisOptions } from 'ioredis';
+import { env } from './env';
+
+export const redisConnection: RedisOptions = {
+  host: env.REDISHOST,
+  port: env.REDISPORT,
+  username: env.REDISUSER,
+  password: env.REDISPASSWORD,
+};
+
+/**
+ * Open a new standalone Redis client. Pub/sub needs dedicated clients
+ * (a subscribed connection cannot issue other commands), so callers
+ * should hold on to the instance rather than creating one per call.
+ */
+export function createRedisClient(): Redis {
+  return new Redis(redisConnection);
+}
@@ -0,0 +1,265 @@
+/**
+ * Admin actions on a report's delayed EmailQueue job.
+ *
+ * The job id is stored on `Report.bullMQJobId` when the PDV worker
+ * schedules the email. Admins can release it early ("send now"), move it
+ * to a different time ("reschedule") or drop it ("cancel"). Emails of
+ * partially failed reports are held in EmailReviewQueue instead and only
+ * scheduled once approved ("approve"). Every action is written to
+ * `AuditLog` against the report's workflow before it is carried out, so
+ * reports without a workflow are rejected.
+ */
+
+import type { Job, Queue } from 'bullmq';
+import { db as prismaDb } from './db';
+import {
+  resolveEmailDelay,
+  type DeliveryDelayOverrides,
+} from './delivery-delay';
+import { reviewJobId } from './queue';
+import { createLogger } from './logger';
+
+const log = createLogger('report-email-actions');
+
+// Type assertion to bypass dts-cli's outdated TypeScript (4.9.5) not recognizing Prisma 6 types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const db = prismaDb as any;
+
+export type ReportEmailAction =
+  | 'SEND_NOW'
+  | 'RESCHEDULE'
+  | 'CANCEL'
+  | 'APPROVE';
+
+/** Who performed the action, for the audit trail. */
+export interface ActionActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+type ActionFailure = { ok: false; status: number; error: string };
+
+export type ReportEmailActionResult =
+  | { ok: true; jobId: string; scheduledFor: string | null }
+  | ActionFailure;
+
+interface ReportEmailRow {
+  id: string;
+  bullMQJobId: string | null;
+  platformId: string | null;
+  deliveryStatus: string;
+  organisationWorkflow: { workflowId: string } | null;
+}
+
+// A report whose actions can be audited
+type AuditableReport = ReportEmailRow & {
+  organisationWorkflow: { workflowId: string };
+};
+
+const fail = (status: number, error: string): ActionFailure => ({
+  ok: false,
+  status,
+  error,
+});
+
+async function findReport(
+  reportId: string
+): Promise<{ ok: true; report: AuditableReport } | ActionFailure> {
+  const report = (await db.report.findUnique({
+    where: { id: reportId },
+    select: {
+      id: true,
+      bullMQJobId: true,
+      platformId: true,
+      deliveryStatus: true,
+      organisationWorkflow: { select: { workflowId: true } },
+    },
+  })) as ReportEmailRow | null;
+
+  if (!report) return fail(404, 'Report not found');
+  // AuditLog.workflowId is required
+  if (!report.organisationWorkflow) {
+    return fail(409, 'Report has no workflow to audit the action against');
+  }
+  return { ok: true, report: report as AuditableReport };
+}
+
+async function loadDelayedJob(
+  emailQueue: Queue,
+  reportId: string
+): Promise<{ ok: true; report: AuditableReport; job: Job } | ActionFailure> {
+  const found = await findReport(reportId);
+  if (!found.ok) return found;
+  const { report } = found;
+
+  if (!report.bullMQJobId) {
+    return fail(404, 'No email job scheduled for this report');
+  }
+
+  const job = await emailQueue.getJob(report.bullMQJobId);
+  if (!job) return fail(404, 'Job not found');
+
+  // Only a job still waiting out its delay can be released/rescheduled/cancelled
+  const state = await job.getState();
+  if (state !== 'delayed') {
+    return fail(409, `Email job is ${state}, not delayed`);
+  }
+
+  return { ok: true, report, job };
+}
+
+// Written before the action is carried out: if the audit row can't be
+// written, the action fails without having happened
+async function writeAuditLog(
+  report: AuditableReport,
+  action: ReportEmailAction,
+  actor: ActionActor,
+  values: { oldValues?: unknown; newValues?: unknown; jobId: string }
+): Promise<void> {
+  await db.auditLog.create({
+    data: {
+      action: `REPORT_EMAIL_${action}`,
+      entityType: 'Report',
+      entityId: report.id,
+      userId: actor.userId,
+      workflowId: report.organisationWorkflow.workflowId,
+      oldValues: values.oldValues ?? undefined,
+      newValues: values.newValues ?? undefined,
+      metadata: { jobId: values.jobId },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    },
+  });
+}
+
+const scheduledTime = (timestamp: number, delay: number) =>
+  new Date(timestamp + delay).toISOString();
+
+/** Promote the delayed email so it is sent right away. */
+export async function sendReportEmailNow(
+  emailQueue: Queue,
+  reportId: string,
+  actor: ActionActor
+): Promise<ReportEmailActionResult> {
+  const loaded = await loadDelayedJob(emailQueue, reportId);
+  if (!loaded.ok) return loaded;
+  const { report, job } = loaded;
+
+  const previouslyScheduledFor = scheduledTime(job.timestamp, job.delay);
+  await writeAuditLog(report, 'SEND_NOW', actor, {
+    jobId: job.id!,
+    oldValues: { scheduledFor: previouslyScheduledFor },
+    newValues: { scheduledFor: new Date().toISOString() },
+  });
+  await job.promote();
+
+  log.info(`Email job ${job.id} for report ${reportId} released early`);
+  return { ok: true, jobId: job.id!, scheduledFor: null };
+}
+
+/** Change when the delayed email goes out. */
+export async function rescheduleReportEmail(
+  emailQueue: Queue,
+  reportId: string,
+  overrides: DeliveryDelayOverrides,
+  actor: ActionActor
+): Promise<ReportEmailActionResult> {
+  if (!overrides.deliverAt && overrides.delayMs === undefined) {
+    return fail(400, 'deliverAt or delayMs is required');
+  }
+
+  const loaded = await loadDelayedJob(emailQueue, reportId);
+  if (!loaded.ok) return loaded;
+  const { report, job } = loaded;
+
+  const previouslyScheduledFor = scheduledTime(job.timestamp, job.delay);
+  const delay = await resolveEmailDelay(report.platformId, overrides);
+  // changeDelay() counts from now, not from when the job was added
+  const scheduledFor = scheduledTime(Date.now(), delay);
+
+  await writeAuditLog(report, 'RESCHEDULE', actor, {
+    jobId: job.id!,
+    oldValues: { scheduledFor: previouslyScheduledFor },
+    newValues: { scheduledFor },
+  });
+  await job.changeDelay(delay);
+
+  log.info(
+    `Email job ${job.id} for report ${reportId} rescheduled to ${scheduledFor}`
+  );
+  return { ok: true, jobId: job.id!, scheduledFor };
+}
+
+/** Remove the delayed email and mark the report as not delivered. */
+export async function cancelReportEmail(
+  emailQueue: Queue,
+  reportId: string,
+  actor: ActionActor
+): Promise<ReportEmailActionResult> {
+  const loaded = await loadDelayedJob(emailQueue, reportId);
+  if (!loaded.ok) return loaded;
+  const { report, job } = loaded;
+
+  const previouslyScheduledFor = scheduledTime(job.timestamp, job.delay);
+  await writeAuditLog(report, 'CANCEL', actor, {
+    jobId: job.id!,
+    oldValues: {
+      scheduledFor: previouslyScheduledFor,
+      deliveryStatus: report.deliveryStatus,
+    },
+    newValues: { deliveryStatus: 'NOT_DELIVERED' },
+  });
+  await job.remove();
+
+  await db.report.update({
+    where: { id: reportId },
+    data: { deliveryStatus: 'NOT_DELIVERED', bullMQJobId: null },
+  });
+
+  log.info(`Email job ${job.id} for report ${reportId} cancelled`);
+  return { ok: true, jobId: job.id!, scheduledFor: null };
+}
+
+/** Schedule the held email of a report awaiting review. */
+export async function approveReportEmail(
+  reviewQueue: Queue,
+  emailQueue: Queue,
+  reportId: string,
+  overrides: DeliveryDelayOverrides,
+  actor: ActionActor
+): Promise<ReportEmailActionResult> {
+  const found = await findReport(reportId);
+  if (!found.ok) return found;
+  const { report } = found;
+  if (report.deliveryStatus !== 'PENDING_REVIEW') {
+    return fail(409, `Report is ${report.deliveryStatus}, not awaiting review`);
+  }
+
+  const reviewJob = await reviewQueue.getJob(reviewJobId(reportId));
+  if (!reviewJob) return fail(404, 'No held email for this report');
+
+  // Same delay resolution as a freshly generated report
+  const delay = await resolveEmailDelay(report.platformId, overrides);
+  const scheduledFor = scheduledTime(Date.now(), delay);
+  // Chosen up front so the audit row can name it; one per held email
+  const emailJobId = `email-${reviewJob.id}-${reviewJob.timestamp}`;
+
+  await writeAuditLog(report, 'APPROVE', actor, {
+    jobId: emailJobId,
+    oldValues: { deliveryStatus: report.deliveryStatus },
+    newValues: { deliveryStatus: 'PENDING', scheduledFor },
+  });
+  await emailQueue.add('Email', reviewJob.data, { delay, jobId: emailJobId });
+
+  await db.report.update({
+    where: { id: reportId },
+    data: { deliveryStatus: 'PENDING', bullMQJobId: emailJobId },
+  });
+  await reviewJob.remove();
+
+  log.info(
+    `Held email for report ${reportId} approved as job ${emailJobId}, scheduled for ${scheduledFor}`
+  );
+  return { ok: true, jobId: emailJobId, scheduledFor };
+}
@@ -0,0 +1,47 @@
+/**
+ * Process roles.
+ *
+ * One build runs as any of these, so the CPU-heavy PDV work can be
+ * scaled separately from the API:
+ *
+ * - `api`      — Fastify server: job submission, admin actions, webhooks,
+ *                SSE notifications and Bull Board
+ * - `worker`   — EmailQueue and PDVReportQueue workers; its HTTP server
+ *                only serves the health and metrics routes
+ * - `whatsapp` — WhatsApp sessions and the `/whatsapp/*` routes (sockets
+ *                live in memory, so the routes must be served by the
+ *                process that holds them)
+ * - `all`      — everything in one process (the default)
+ *
+ * The role comes from a `--role=<role>` argument, falling back to
+ * SERVICE_ROLE. Run only one `whatsapp` (or `all`) process at a time: a
+ * WhatsApp session can only be connected from one place.
+ */
+
+import { env } from './env';
+
+export const SERVICE_ROLES = ['api', 'worker', 'whatsapp', 'all'] as const;
+
+export type ServiceRole = (typeof SERVICE_ROLES)[number];
+
+export type Subsystem = Exclude<ServiceRole, 'all'>;
+
+const isServiceRole = (value: string): value is ServiceRole =>
+  (SERVICE_ROLES as readonly string[]).includes(value);
+
+/** Role from `--role=<role>` in `argv`, or SERVICE_ROLE. */
+export function resolveServiceRole(argv = process.argv): ServiceRole {
+  const arg = argv.find((a) => a.startsWith('--role='));
+  const role = arg ? arg.slice('--role='.length) : env.SERVICE_ROLE;
+
+  if (!isServiceRole(role)) {
+    throw new Error(
+      `Unknown role "${role}", expected one of: ${SERVICE_ROLES.join(', ')}`
+    );
+  }
+  return role;
+}
+
+/** Whether a process running `role` starts `subsystem`. */
+export const runsSubsystem = (role: ServiceRole, subsystem: Subsystem) =>
+  role === 'all' || role === subsystem;
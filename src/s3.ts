@@ -13,6 +13,7 @@ import {
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  HeadBucketCommand,
 } from '@aws-sdk/client-s3';
 import { env } from './env';
 
@@ -133,3 +134,16 @@ export async function deleteFromS3(key: string): Promise<void> {
     }),
   );
 }
+
+/**
+ * Check that the bucket exists and the credentials can reach it.
+ * Used by the readiness probe.
+ */
+export async function checkS3Bucket(): Promise<void> {
+  const client = getClient();
+  await client.send(
+    new HeadBucketCommand({
+      Bucket: env.AWS_S3_BUCKET_NAME,
+    }),
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Graceful shutdown.
+ *
+ * On SIGTERM (sent by Railway on every redeploy) or SIGINT the service
+ * runs its shutdown steps in order — stop accepting HTTP requests, end
+ * the SSE streams, drain the workers, flush the WhatsApp sessions, close
+ * the Redis and database connections — and then exits. A second signal,
+ * or SHUTDOWN_TIMEOUT_MS elapsing, exits immediately.
+ *
+ * Workers get WORKER_DRAIN_TIMEOUT_MS to finish their active jobs. Jobs
+ * still running after that are abandoned; BullMQ's stalled-job check
+ * moves them back to the wait list once their lock expires, and PDV
+ * jobs resume from their checkpoint.
+ */
+
+import type { Worker } from 'bullmq';
+import { env } from './env';
+import { createLogger } from './logger';
+
+const log = createLogger('shutdown');
+
+export interface ShutdownStep {
+  name: string;
+  run: () => Promise<unknown>;
+}
+
+/** Reconnect delay sent to SSE clients when their stream is closed. */
+export const SSE_SHUTDOWN_RETRY_MS = 5000;
+
+let shuttingDown = false;
+
+/** True once a shutdown signal was received; readiness then fails. */
+export const isShuttingDown = () => shuttingDown;
+
+/**
+ * Close a worker, waiting up to `drainMs` for its active jobs. If they
+ * don't finish in time the worker is force-closed and the jobs are left
+ * for the stalled-job check to requeue.
+ */
+export async function drainWorker(
+  worker: Worker,
+  drainMs = env.WORKER_DRAIN_TIMEOUT_MS
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const drained = await Promise.race([
+    worker.close().then(() => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), drainMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (!drained) {
+    log.warn(
+      `Worker ${worker.name} still busy after ${drainMs}ms, closing anyway; active jobs will be requeued`
+    );
+    await worker.close(true);
+  }
+}
+
+/** Run `steps` in order on SIGTERM/SIGINT, then exit. */
+export function registerShutdownHandlers(steps: ShutdownStep[]): void {
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      log.warn(`Received ${signal} again, exiting immediately`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    log.info(`Received ${signal}, shutting down gracefully...`);
+
+    const deadline = setTimeout(() => {
+      log.error(
+        `Shutdown did not finish within ${env.SHUTDOWN_TIMEOUT_MS}ms, exiting`
+      );
+      process.exit(1);
+    }, env.SHUTDOWN_TIMEOUT_MS);
+    deadline.unref();
+
+    // A failed step is logged and the remaining steps still run
+    let exitCode = 0;
+    for (const step of steps) {
+      try {
+        await step.run();
+        log.info(`Shutdown: ${step.name}`);
+      } catch (err) {
+        exitCode = 1;
+        log.error({ err }, `Shutdown step "${step.name}" failed`);
+      }
+    }
+
+    clearTimeout(deadline);
+    log.info('Shutdown complete');
+    process.exit(exitCode);
+  };
+
+  process.on('SIGTERM', (signal) => void shutdown(signal));
+  process.on('SIGINT', (signal) => void shutdown(signal));
+}
@@ -14,6 +14,7 @@ import makeWASocket, {
 import { useEncryptedMultiFileAuthState } from './encrypted-auth-state';
 import { encrypt, encryptBuffer } from './crypto';
 import { uploadToS3, getS3Url, isS3Configured } from './s3';
+import { createLogger } from './logger';
 
 /**
  * Extract the sender's JID from a Baileys v7 message key.
@@ -33,7 +34,7 @@ import { uploadToS3, getS3Url, isS3Configured } from './s3';
  */
 function getSenderJidFromKey(
   key: WAMessageKey,
-  ownJid?: string,
+  ownJid?: string
 ): string | null {
   // Self-sent message — return the connected user's JID
   if (key.fromMe) return ownJid ?? null;
@@ -96,6 +97,8 @@ import { db } from './db';
 import path from 'path';
 import fs from 'fs';
 
+const log = createLogger('whatsapp');
+
 interface GroupInfo {
   id: string;
   name: string;
@@ -128,6 +131,8 @@ export class WhatsAppService {
   private lastPersistedSize: Map<string, number> = new Map();
   // Periodic persist timers per session
   private persistTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Set by shutdown() so closing sockets don't schedule reconnects
+  private shuttingDown = false;
 
   constructor() {
     this.authBasePath = path.join(process.cwd(), '.whatsapp-auth');
@@ -174,13 +179,15 @@ export class WhatsAppService {
       });
 
       this.lastPersistedSize.set(sessionId, totalBytes);
-      console.log(
-        `💾 Persisted auth state to DB for session ${sessionId} (${files.length} files, ${(totalBytes / 1024).toFixed(1)} KB)`,
+      log.info(
+        `Persisted auth state to DB for session ${sessionId} (${
+          files.length
+        } files, ${(totalBytes / 1024).toFixed(1)} KB)`
       );
     } catch (err) {
-      console.error(
-        `Failed to persist auth state for session ${sessionId}:`,
-        err instanceof Error ? err.message : err,
+      log.error(
+        { err },
+        `Failed to persist auth state for session ${sessionId}`
       );
     }
   }
@@ -216,25 +223,28 @@ export class WhatsAppService {
         restored++;
       }
 
-      console.log(
-        `♻️ Restored ${restored} auth file(s) from DB for session ${sessionId}`,
+      log.info(
+        `Restored ${restored} auth file(s) from DB for session ${sessionId}`
       );
       return true;
     } catch (err) {
-      console.error(
-        `Failed to restore auth state from DB for session ${sessionId}:`,
-        err instanceof Error ? err.message : err,
+      log.error(
+        { err },
+        `Failed to restore auth state from DB for session ${sessionId}`
       );
       return false;
     }
   }
 
   async connect(sessionId: string): Promise<void> {
+    // Pending reconnects must not open new sockets during shutdown
+    if (this.shuttingDown) return;
+
     // If already connected, skip
     if (this.sockets.has(sessionId)) {
       const existingSock = this.sockets.get(sessionId)!;
       if (existingSock.user) {
-        console.log(`WhatsApp session ${sessionId} already connected`);
+        log.info(`WhatsApp session ${sessionId} already connected`);
         return;
       }
     }
@@ -283,8 +293,8 @@ export class WhatsAppService {
 
         if (messages.length === 0) return;
 
-        console.log(
-          `📥 [history.set] session ${sessionId} received ${messages.length} historical messages (isLatest=${isLatest})`
+        log.info(
+          `[history.set] session ${sessionId} received ${messages.length} historical messages (isLatest=${isLatest})`
         );
 
         // Cache existing groups for this session — we'll auto-create new ones as needed
@@ -348,10 +358,7 @@ export class WhatsAppService {
                 groupCache.set(remoteJid, groupDbId);
               }
             } catch (err) {
-              console.error(
-                `Failed to auto-create group ${remoteJid}:`,
-                err
-              );
+              log.error({ err }, `Failed to auto-create group ${remoteJid}`);
               continue;
             }
           }
@@ -372,93 +379,101 @@ export class WhatsAppService {
             await this.storeMessage(msg, groupDbId, sock);
             stored++;
           } catch (err) {
-            console.error('Error storing history message:', err);
+            log.error({ err }, 'Error storing history message');
           }
         }
 
-        console.log(
-          `📥 [history.set] session ${sessionId}: stored ${stored} messages, skipped ${skipped}, created ${groupsCreated} new group(s)`
+        log.info(
+          `[history.set] session ${sessionId}: stored ${stored} messages, skipped ${skipped}, created ${groupsCreated} new group(s)`
         );
       } catch (err) {
-        console.error('Error processing messaging-history.set event:', err);
+        log.error({ err }, 'Error processing messaging-history.set event');
       }
     });
 
     // Handle connection updates
-    sock.ev.on('connection.update', async (update: Partial<ConnectionState>) => {
-      const { connection, lastDisconnect, qr } = update;
+    sock.ev.on(
+      'connection.update',
+      async (update: Partial<ConnectionState>) => {
+        const { connection, lastDisconnect, qr } = update;
 
-      if (qr) {
-        // Generate QR code as base64 data URL
-        try {
-          const qrDataUrl = await QRCode.toDataURL(qr, {
-            width: 300,
-            margin: 2,
-          });
-          this.qrCodes.set(sessionId, qrDataUrl);
-          console.log(`📱 QR code generated for session ${sessionId}`);
-        } catch (err) {
-          console.error('Error generating QR code:', err);
+        if (qr) {
+          // Generate QR code as base64 data URL
+          try {
+            const qrDataUrl = await QRCode.toDataURL(qr, {
+              width: 300,
+              margin: 2,
+            });
+            this.qrCodes.set(sessionId, qrDataUrl);
+            log.info(`QR code generated for session ${sessionId}`);
+          } catch (err) {
+            log.error({ err }, 'Error generating QR code');
+          }
         }
-      }
 
-      if (connection === 'close') {
-        const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
-        const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
+        if (connection === 'close') {
+          const statusCode = (lastDisconnect?.error as Boom)?.output
+            ?.statusCode;
+          const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
 
-        console.log(
-          `WhatsApp session ${sessionId} disconnected, statusCode: ${statusCode}, reconnect: ${shouldReconnect}`
-        );
+          log.info(
+            `WhatsApp session ${sessionId} disconnected, statusCode: ${statusCode}, reconnect: ${shouldReconnect}`
+          );
 
-        this.sockets.delete(sessionId);
-        this.qrCodes.delete(sessionId);
+          this.sockets.delete(sessionId);
+          this.qrCodes.delete(sessionId);
 
-        if (shouldReconnect) {
-          // Attempt to reconnect
-          setTimeout(() => {
-            void this.connect(sessionId);
-          }, 3000);
-        } else {
-          // Logged out - update status
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          await (db as any).whatsAppSession.update({
-            where: { id: sessionId },
-            data: { status: 'DISCONNECTED' },
-          });
+          // Closed by shutdown(): keep the session as-is so it is restored
+          // on the next start
+          if (this.shuttingDown) return;
+
+          if (shouldReconnect) {
+            // Attempt to reconnect
+            setTimeout(() => {
+              void this.connect(sessionId);
+            }, 3000);
+          } else {
+            // Logged out - update status
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            await (db as any).whatsAppSession.update({
+              where: { id: sessionId },
+              data: { status: 'DISCONNECTED' },
+            });
 
-          // Clean up auth files
-          if (fs.existsSync(authPath)) {
-            fs.rmSync(authPath, { recursive: true });
+            // Clean up auth files
+            if (fs.existsSync(authPath)) {
+              fs.rmSync(authPath, { recursive: true });
+            }
           }
-        }
-      } else if (connection === 'open') {
-        console.log(`✅ WhatsApp session ${sessionId} connected`);
-        this.qrCodes.delete(sessionId);
+        } else if (connection === 'open') {
+          log.info(`WhatsApp session ${sessionId} connected`);
+          this.qrCodes.delete(sessionId);
 
-        const phoneNumber = sock.user?.id?.split(':')[0] ?? null;
+          const phoneNumber = sock.user?.id?.split(':')[0] ?? null;
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (db as any).whatsAppSession.update({
-          where: { id: sessionId },
-          data: {
-            status: 'CONNECTED',
-            phoneNumber,
-            lastConnected: new Date(),
-          },
-        });
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await (db as any).whatsAppSession.update({
+            where: { id: sessionId },
+            data: {
+              status: 'CONNECTED',
+              phoneNumber,
+              lastConnected: new Date(),
+            },
+          });
 
-        // Set up persistent message listener for real-time sync
-        void this.setupPersistentListener(sessionId, sock);
+          // Set up persistent message listener for real-time sync
+          void this.setupPersistentListener(sessionId, sock);
 
-        // Set up periodic sync (every 10 minutes)
-        this.startPeriodicSync(sessionId);
+          // Set up periodic sync (every 10 minutes)
+          this.startPeriodicSync(sessionId);
 
-        // Persist auth state to DB now (for redeploy survival),
-        // then schedule periodic persists every 5 minutes
-        void this.persistAuthStateToDb(sessionId);
-        this.startAuthStatePersist(sessionId);
+          // Persist auth state to DB now (for redeploy survival),
+          // then schedule periodic persists every 5 minutes
+          void this.persistAuthStateToDb(sessionId);
+          this.startAuthStatePersist(sessionId);
+        }
       }
-    });
+    );
 
     // Also persist on every credential update (cheap dedup via lastPersistedSize)
     sock.ev.on('creds.update', () => {
@@ -471,12 +486,9 @@ export class WhatsAppService {
     if (existing) clearInterval(existing);
 
     // Persist auth state to DB every 5 minutes as a backup
-    const timer = setInterval(
-      () => {
-        void this.persistAuthStateToDb(sessionId);
-      },
-      5 * 60 * 1000,
-    );
+    const timer = setInterval(() => {
+      void this.persistAuthStateToDb(sessionId);
+    }, 5 * 60 * 1000);
     this.persistTimers.set(sessionId, timer);
   }
 
@@ -522,6 +534,35 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Close every socket for a process shutdown. Unlike disconnect() this
+   * does not log out: timers are stopped, each session's auth state is
+   * flushed to the DB, and the socket is closed, so restoreSessions()
+   * picks the session back up on the next start (even on a fresh
+   * filesystem).
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+
+    for (const timer of this.syncTimers.values()) clearInterval(timer);
+    this.syncTimers.clear();
+
+    await Promise.all(
+      Array.from(this.sockets.entries()).map(async ([sessionId, sock]) => {
+        // Also resets the size dedup, so the flush always writes
+        this.stopAuthStatePersist(sessionId);
+        await this.persistAuthStateToDb(sessionId);
+        sock.end(undefined);
+        log.info(`WhatsApp session ${sessionId} closed for shutdown`);
+      })
+    );
+
+    // Sessions that were between reconnects have no socket to flush
+    for (const sessionId of Array.from(this.persistTimers.keys())) {
+      this.stopAuthStatePersist(sessionId);
+    }
+  }
+
   async fetchGroups(sessionId: string): Promise<GroupInfo[]> {
     const sock = this.sockets.get(sessionId);
     if (!sock) {
@@ -701,7 +742,9 @@ export class WhatsAppService {
           let contactId: string | null = null;
 
           if (senderPhone) {
-            const encPushName = msg.pushName ? encrypt(msg.pushName) : undefined;
+            const encPushName = msg.pushName
+              ? encrypt(msg.pushName)
+              : undefined;
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             const contact = await (db as any).whatsAppContact.upsert({
               where: {
@@ -724,9 +767,7 @@ export class WhatsAppService {
 
           // Calculate timestamp
           const timestamp = msg.messageTimestamp
-            ? new Date(
-                Number(msg.messageTimestamp) * 1000
-              )
+            ? new Date(Number(msg.messageTimestamp) * 1000)
             : new Date();
 
           // Store message (content is encrypted at rest)
@@ -769,7 +810,7 @@ export class WhatsAppService {
               });
               mediaImported++;
             } catch (mediaErr) {
-              console.error('Error saving media metadata:', mediaErr);
+              log.error({ err: mediaErr }, 'Error saving media metadata');
             }
           }
 
@@ -796,9 +837,9 @@ export class WhatsAppService {
           Math.floor(Date.now() / 1000)
         );
       } catch (historyErr) {
-        console.log(
-          'fetchMessageHistory not available, relying on existing sync:',
-          historyErr
+        log.info(
+          { err: historyErr },
+          'fetchMessageHistory not available, relying on existing sync'
         );
       }
 
@@ -826,11 +867,11 @@ export class WhatsAppService {
         mediaImported,
       });
 
-      console.log(
-        `✅ Import completed for group ${groupDbId}: ${contactsImported} contacts, ${messagesImported} messages, ${mediaImported} media`
+      log.info(
+        `Import completed for group ${groupDbId}: ${contactsImported} contacts, ${messagesImported} messages, ${mediaImported} media`
       );
     } catch (error) {
-      console.error(`Error importing group ${groupDbId}:`, error);
+      log.error({ err: error }, `Error importing group ${groupDbId}`);
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       await (db as any).whatsAppGroup.update({
@@ -877,7 +918,7 @@ export class WhatsAppService {
       });
 
       if (sessions.length === 0) {
-        console.log('🔄 No WhatsApp sessions in database to restore');
+        log.info('No WhatsApp sessions in database to restore');
         return;
       }
 
@@ -900,8 +941,8 @@ export class WhatsAppService {
 
         // Neither disk nor DB has auth state
         if (s.status === 'CONNECTED') {
-          console.warn(
-            `⚠️ Auth files missing for session ${s.id} (no DB backup either), marking as DISCONNECTED`,
+          log.warn(
+            `Auth files missing for session ${s.id} (no DB backup either), marking as DISCONNECTED`
           );
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           await (db as any).whatsAppSession.update({
@@ -912,14 +953,14 @@ export class WhatsAppService {
       }
 
       if (restorable.length === 0) {
-        console.log(
-          '🔄 No restorable WhatsApp sessions found (no auth files on disk)',
+        log.info(
+          'No restorable WhatsApp sessions found (no auth files on disk)'
         );
         return;
       }
 
-      console.log(
-        `🔄 Restoring ${restorable.length} WhatsApp session(s) from previous run...`,
+      log.info(
+        `Restoring ${restorable.length} WhatsApp session(s) from previous run...`
       );
 
       for (const session of restorable) {
@@ -927,15 +968,15 @@ export class WhatsAppService {
           // Stagger reconnections so we don't hammer WhatsApp servers
           await new Promise((resolve) => setTimeout(resolve, 500));
           void this.connect(session.id);
-          console.log(
-            `🔄 Reconnect initiated for session ${session.id} (was ${session.status})`,
+          log.info(
+            `Reconnect initiated for session ${session.id} (was ${session.status})`
           );
         } catch (err) {
-          console.error(`❌ Failed to restore session ${session.id}:`, err);
+          log.error({ err }, `Failed to restore session ${session.id}`);
         }
       }
     } catch (err) {
-      console.error('Error restoring WhatsApp sessions:', err);
+      log.error({ err }, 'Error restoring WhatsApp sessions');
     }
   }
 
@@ -977,7 +1018,7 @@ export class WhatsAppService {
       params.whatsappGroupId,
       { text: params.text },
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      { quoted },
+      { quoted }
     );
 
     return { messageId: result?.key?.id ?? null };
@@ -991,6 +1032,16 @@ export class WhatsAppService {
     return 'RECONNECTING';
   }
 
+  /** Number of sessions held by this process per status, for metrics. */
+  getSessionStatusCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const sessionId of this.sockets.keys()) {
+      const status = this.getSessionStatus(sessionId);
+      counts[status] = (counts[status] ?? 0) + 1;
+    }
+    return counts;
+  }
+
   // ─── Persistent Listener (Real-time Sync) ──────────────
 
   private async setupPersistentListener(
@@ -1011,7 +1062,7 @@ export class WhatsAppService {
     });
 
     if (importedGroups.length === 0) {
-      console.log(
+      log.info(
         `No imported groups for session ${sessionId}, skipping persistent listener`
       );
       return;
@@ -1023,48 +1074,60 @@ export class WhatsAppService {
       groupMap.set(g.whatsappGroupId, g.id);
     }
 
-    console.log(
-      `🔄 Setting up persistent listener for ${groupMap.size} groups on session ${sessionId}`
+    log.info(
+      `Setting up persistent listener for ${groupMap.size} groups on session ${sessionId}`
     );
 
-    sock.ev.on('messages.upsert', async ({ messages }: { messages: WAMessage[]; type: MessageUpsertType }) => {
-      for (const msg of messages) {
-        const remoteJid = msg.key.remoteJid;
-        if (!remoteJid) continue;
+    sock.ev.on(
+      'messages.upsert',
+      async ({
+        messages,
+      }: {
+        messages: WAMessage[];
+        type: MessageUpsertType;
+      }) => {
+        for (const msg of messages) {
+          const remoteJid = msg.key.remoteJid;
+          if (!remoteJid) continue;
 
-        const groupDbId = groupMap.get(remoteJid);
-        if (!groupDbId) continue; // Not an imported group
-        if (!msg.message) continue;
+          const groupDbId = groupMap.get(remoteJid);
+          if (!groupDbId) continue; // Not an imported group
+          if (!msg.message) continue;
 
-        // Reaction message — store as a reaction, not as a regular message
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
-        const reactionMessage = (msg.message as any).reactionMessage;
-        if (reactionMessage) {
-          await this.storeReaction(msg, groupDbId, reactionMessage as {
-            key?: { id?: string };
-            text?: string;
-            senderTimestampMs?: number | { low: number; high: number };
-          });
-          continue;
-        }
+          // Reaction message — store as a reaction, not as a regular message
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-explicit-any
+          const reactionMessage = (msg.message as any).reactionMessage;
+          if (reactionMessage) {
+            await this.storeReaction(
+              msg,
+              groupDbId,
+              reactionMessage as {
+                key?: { id?: string };
+                text?: string;
+                senderTimestampMs?: number | { low: number; high: number };
+              }
+            );
+            continue;
+          }
 
-        // Deduplicate: check if message already stored
-        const whatsappMsgId = msg.key.id ?? '';
-        if (!whatsappMsgId) continue;
+          // Deduplicate: check if message already stored
+          const whatsappMsgId = msg.key.id ?? '';
+          if (!whatsappMsgId) continue;
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const existing = await (db as any).whatsAppMessage.findFirst({
-          where: { groupId: groupDbId, whatsappMsgId },
-        });
-        if (existing) continue;
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const existing = await (db as any).whatsAppMessage.findFirst({
+            where: { groupId: groupDbId, whatsappMsgId },
+          });
+          if (existing) continue;
 
-        try {
-          await this.storeMessage(msg, groupDbId, sock);
-        } catch (err) {
-          console.error('Error storing synced message:', err);
+          try {
+            await this.storeMessage(msg, groupDbId, sock);
+          } catch (err) {
+            log.error({ err }, 'Error storing synced message');
+          }
         }
       }
-    });
+    );
   }
 
   // ─── Store a reaction ─────────────────────────────────
@@ -1075,7 +1138,7 @@ export class WhatsAppService {
       key?: { id?: string };
       text?: string;
       senderTimestampMs?: number | { low: number; high: number };
-    },
+    }
   ): Promise<void> {
     try {
       const targetMsgId = reactionMessage.key?.id;
@@ -1135,11 +1198,13 @@ export class WhatsAppService {
         update: {
           emoji,
           timestamp,
-          ...(encReactorPushName ? { reactorPushName: encReactorPushName } : {}),
+          ...(encReactorPushName
+            ? { reactorPushName: encReactorPushName }
+            : {}),
         },
       });
     } catch (err) {
-      console.error('Error storing reaction:', err);
+      log.error({ err }, 'Error storing reaction');
     }
   }
 
@@ -1151,7 +1216,7 @@ export class WhatsAppService {
   private async storeMessage(
     msg: WAMessage,
     groupDbId: string,
-    sock?: WASocket,
+    sock?: WASocket
   ): Promise<void> {
     const contentType = getContentType(msg.message!);
     if (!contentType) return;
@@ -1246,7 +1311,9 @@ export class WhatsAppService {
     if (senderJid && isLidUser(senderJid) && sock) {
       try {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-assignment
-        const resolved = await (sock as any).signalRepository?.lidMapping?.getPNForLID?.(senderJid);
+        const resolved = await (
+          sock as any
+        ).signalRepository?.lidMapping?.getPNForLID?.(senderJid);
         if (resolved && typeof resolved === 'string') {
           senderJid = resolved;
         }
@@ -1263,8 +1330,14 @@ export class WhatsAppService {
       // Diagnostic: log the key + top-level fields so we can see why extraction failed
       // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access
       const topParticipant = (msg as any).participant as string | undefined;
-      console.warn(
-        `⚠️ No sender extracted for message ${msg.key.id}: fromMe=${msg.key.fromMe}, key.participant=${msg.key.participant}, key.participantAlt=${msg.key.participantAlt ?? 'none'}, msg.participant=${topParticipant ?? 'none'}, remoteJid=${msg.key.remoteJid}`,
+      log.warn(
+        `No sender extracted for message ${msg.key.id}: fromMe=${
+          msg.key.fromMe
+        }, key.participant=${msg.key.participant}, key.participantAlt=${
+          msg.key.participantAlt ?? 'none'
+        }, msg.participant=${topParticipant ?? 'none'}, remoteJid=${
+          msg.key.remoteJid
+        }`
       );
     }
 
@@ -1330,7 +1403,9 @@ export class WhatsAppService {
 
     // Handle media — metadata + S3 upload (or inline fallback)
     if (
-      ['image', 'video', 'document', 'audio', 'sticker'].includes(messageType) &&
+      ['image', 'video', 'document', 'audio', 'sticker'].includes(
+        messageType
+      ) &&
       msg.message
     ) {
       try {
@@ -1358,15 +1433,15 @@ export class WhatsAppService {
               {
                 logger: undefined as never,
                 reuploadRequest: sock.updateMediaMessage,
-              },
+              }
             );
             if (downloaded instanceof Buffer) {
               downloadedBuffer = downloaded;
             }
           } catch (dlErr) {
-            console.warn(
-              `Could not download media for message ${savedMsg.id as string}:`,
-              dlErr instanceof Error ? dlErr.message : dlErr,
+            log.warn(
+              { err: dlErr },
+              `Could not download media for message ${savedMsg.id as string}`
             );
           }
         }
@@ -1392,9 +1467,11 @@ export class WhatsAppService {
               s3Key = key;
               s3Url = getS3Url(key);
             } catch (s3Err) {
-              console.error(
-                `S3 upload failed for ${savedMsg.id as string}, falling back to inline:`,
-                s3Err instanceof Error ? s3Err.message : s3Err,
+              log.error(
+                { err: s3Err },
+                `S3 upload failed for ${
+                  savedMsg.id as string
+                }, falling back to inline`
               );
               // Fall back to inline if file is small enough
               if (encrypted.length <= WhatsAppService.MAX_INLINE_MEDIA_BYTES) {
@@ -1425,7 +1502,7 @@ export class WhatsAppService {
           },
         });
       } catch (mediaErr) {
-        console.error('Error saving media metadata:', mediaErr);
+        log.error({ err: mediaErr }, 'Error saving media metadata');
       }
     }
   }
@@ -1442,7 +1519,7 @@ export class WhatsAppService {
       throw new Error(`Session ${sessionId} not connected`);
     }
 
-    console.log(`🔄 Manual sync started for group ${groupDbId}`);
+    log.info(`Manual sync started for group ${groupDbId}`);
 
     // 1. Sync contacts from group metadata
     const metadata = await sock.groupMetadata(whatsappGroupId);
@@ -1500,7 +1577,7 @@ export class WhatsAppService {
           await this.storeMessage(msg, groupDbId, sock);
           messagessynced++;
         } catch (err) {
-          console.error('Error storing synced message:', err);
+          log.error({ err }, 'Error storing synced message');
         }
       }
     };
@@ -1514,7 +1591,7 @@ export class WhatsAppService {
         Math.floor(Date.now() / 1000)
       );
     } catch (historyErr) {
-      console.log('fetchMessageHistory not available:', historyErr);
+      log.info({ err: historyErr }, 'fetchMessageHistory not available');
     }
 
     // Wait for messages to arrive
@@ -1529,7 +1606,7 @@ export class WhatsAppService {
       data: { lastSyncedAt: new Date() },
     });
 
-    console.log(
+    log.info(
       `Sync completed for group ${groupDbId}: ${contactsUpdated} contacts, ${messagessynced} new messages`
     );
 
@@ -1549,7 +1626,7 @@ export class WhatsAppService {
     }, 10 * 60 * 1000);
 
     this.syncTimers.set(sessionId, timer);
-    console.log(`⏰ Periodic sync enabled for session ${sessionId} (every 10 min)`);
+    log.info(`Periodic sync enabled for session ${sessionId} (every 10 min)`);
   }
 
   private async syncAllImportedGroups(sessionId: string): Promise<void> {
@@ -1570,15 +1647,15 @@ export class WhatsAppService {
 
     if (importedGroups.length === 0) return;
 
-    console.log(
-      `⏰ Periodic sync: syncing ${importedGroups.length} groups for session ${sessionId}`
+    log.info(
+      `Periodic sync: syncing ${importedGroups.length} groups for session ${sessionId}`
     );
 
     for (const group of importedGroups) {
       try {
         await this.syncGroup(sessionId, group.id, group.whatsappGroupId);
       } catch (err) {
-        console.error(`Error syncing group ${group.id}:`, err);
+        log.error({ err }, `Error syncing group ${group.id}`);
       }
     }
   }
@@ -0,0 +1,142 @@
+import { db } from '../src/db';
+import { PDVCheckpoint } from '../src/pdv-report/checkpoint';
+
+jest.mock('../src/db', () => ({
+  db: { report: { findUnique: jest.fn(), update: jest.fn() } },
+}));
+jest.mock('@prisma/client', () => ({ Prisma: { DbNull: 'DbNull' } }));
+
+const mockDb = db as any;
+const source = {
+  url: 'https://example.com',
+  title: 'Example',
+  citedText: ['A quoted passage'],
+};
+
+const input = {
+  orgName: 'Acme',
+  pdvAnswers: [{ question: 'Years collecting data?', answer: '5' }],
+  promptVersions: { 'prePDV.summary': 'prePDV.summary@3' },
+};
+
+/** Run a checkpoint from scratch and return what it saved. */
+async function savedCheckpoint() {
+  mockDb.report.findUnique.mockResolvedValueOnce({ pdvCheckpoint: null });
+  const checkpoint = await PDVCheckpoint.load('report-1', input);
+  await checkpoint.step('overview', async () => ({
+    text: 'overview text',
+    sources: [source],
+  }));
+  await checkpoint.stage('prePDV', async () => '{"summary":"saved"}');
+
+  const calls = mockDb.report.update.mock.calls;
+  return calls[calls.length - 1][0].data.pdvCheckpoint;
+}
+
+describe('PDVCheckpoint', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('saves each step and stage as it completes', async () => {
+    const saved = await savedCheckpoint();
+
+    expect(mockDb.report.update).toHaveBeenCalledTimes(2);
+    expect(mockDb.report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { pdvCheckpoint: saved },
+    });
+    expect(saved).toEqual({
+      fingerprint: expect.stringMatching(/^[0-9a-f]{64}$/),
+      prePDVSteps: { overview: 'overview text' },
+      prePDVSources: { overview: [source] },
+      stages: { prePDV: '{"summary":"saved"}' },
+    });
+  });
+
+  it('resumes from a checkpoint built from the same inputs', async () => {
+    const saved = await savedCheckpoint();
+    mockDb.report.findUnique.mockResolvedValue({ pdvCheckpoint: saved });
+    const runStep = jest.fn();
+    const runStage = jest.fn();
+
+    const checkpoint = await PDVCheckpoint.load('report-1', {
+      ...input,
+      pdvAnswers: [...input.pdvAnswers],
+    });
+
+    await expect(checkpoint.step('overview', runStep)).resolves.toEqual({
+      text: 'overview text',
+      sources: [source],
+    });
+    await expect(checkpoint.stage('prePDV', runStage)).resolves.toBe(
+      '{"summary":"saved"}'
+    );
+    expect(runStep).not.toHaveBeenCalled();
+    expect(runStage).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['organisation name', { orgName: 'Acme Ltd' }],
+    [
+      'PDV answers',
+      { pdvAnswers: [{ question: 'Years collecting data?', answer: '6' }] },
+    ],
+    [
+      'prompt versions',
+      { promptVersions: { 'prePDV.summary': 'prePDV.summary@4' } },
+    ],
+  ])('starts fresh when the %s changed', async (_, change) => {
+    const saved = await savedCheckpoint();
+    mockDb.report.findUnique.mockResolvedValue({ pdvCheckpoint: saved });
+    const runStep = jest.fn(async () => ({ text: 'new text', sources: [] }));
+
+    const checkpoint = await PDVCheckpoint.load('report-1', {
+      ...input,
+      ...change,
+    });
+
+    await expect(checkpoint.step('overview', runStep)).resolves.toEqual({
+      text: 'new text',
+      sources: [],
+    });
+    expect(runStep).toHaveBeenCalledTimes(1);
+    const calls = mockDb.report.update.mock.calls;
+    const rewritten = calls[calls.length - 1][0].data.pdvCheckpoint;
+    expect(rewritten.fingerprint).not.toBe(saved.fingerprint);
+    expect(rewritten.stages).toEqual({});
+  });
+
+  it('starts fresh when the checkpoint cannot be loaded', async () => {
+    mockDb.report.findUnique.mockRejectedValue(new Error('db down'));
+    const runStage = jest.fn(async () => 'fresh');
+
+    const checkpoint = await PDVCheckpoint.load('report-1', input);
+
+    await expect(checkpoint.stage('prePDV', runStage)).resolves.toBe('fresh');
+    expect(runStage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not checkpoint a stage that produced nothing', async () => {
+    mockDb.report.findUnique.mockResolvedValue({ pdvCheckpoint: null });
+    const runStage = jest.fn(async () => '');
+
+    const checkpoint = await PDVCheckpoint.load('report-1', input);
+    await checkpoint.stage('supplementary', runStage);
+    await checkpoint.stage('supplementary', runStage);
+
+    expect(runStage).toHaveBeenCalledTimes(2);
+    expect(mockDb.report.update).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the step when the checkpoint cannot be saved', async () => {
+    mockDb.report.findUnique.mockResolvedValue({ pdvCheckpoint: null });
+    mockDb.report.update.mockRejectedValueOnce(new Error('db down'));
+
+    const checkpoint = await PDVCheckpoint.load('report-1', input);
+
+    await expect(
+      checkpoint.step('overview', async () => ({ text: 'text', sources: [] }))
+    ).resolves.toEqual({ text: 'text', sources: [] });
+  });
+});
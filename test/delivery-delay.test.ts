@@ -0,0 +1,73 @@
+import { resolveEmailDelay } from '../src/delivery-delay';
+import { db } from '../src/db';
+import { env } from '../src/env';
+
+jest.mock('../src/db', () => ({
+  db: { platformEmailSetting: { findUnique: jest.fn() } },
+}));
+
+const findSetting = (db as any).platformEmailSetting.findUnique as jest.Mock;
+
+describe('resolveEmailDelay', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    findSetting.mockReset();
+    findSetting.mockResolvedValue({ deliveryDelayMs: 3600000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prefers deliverAt over every other source', async () => {
+    const delay = await resolveEmailDelay('platform-1', {
+      deliverAt: '2026-01-01T00:10:00Z',
+      delayMs: 5000,
+    });
+
+    expect(delay).toBe(600000);
+    expect(findSetting).not.toHaveBeenCalled();
+  });
+
+  it('sends immediately when deliverAt is in the past', async () => {
+    await expect(
+      resolveEmailDelay('platform-1', { deliverAt: '2025-12-31T00:00:00Z' })
+    ).resolves.toBe(0);
+  });
+
+  it('rejects an unparseable deliverAt', async () => {
+    await expect(
+      resolveEmailDelay('platform-1', { deliverAt: 'tomorrow' })
+    ).rejects.toThrow('Invalid deliverAt: tomorrow');
+  });
+
+  it('uses delayMs over the platform setting, including 0', async () => {
+    await expect(resolveEmailDelay('platform-1', { delayMs: 0 })).resolves.toBe(
+      0
+    );
+    expect(findSetting).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the platform's deliveryDelayMs", async () => {
+    await expect(resolveEmailDelay('platform-1')).resolves.toBe(3600000);
+    expect(findSetting).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { platformId: 'platform-1' } })
+    );
+  });
+
+  it('uses the global default without a platform setting', async () => {
+    findSetting.mockResolvedValue({ deliveryDelayMs: null });
+    await expect(resolveEmailDelay('platform-1')).resolves.toBe(
+      env.EMAIL_DELIVERY_DELAY_MS
+    );
+  });
+
+  it('uses the global default without a platform', async () => {
+    await expect(resolveEmailDelay(null)).resolves.toBe(
+      env.EMAIL_DELIVERY_DELAY_MS
+    );
+    expect(findSetting).not.toHaveBeenCalled();
+  });
+});
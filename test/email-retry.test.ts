@@ -0,0 +1,150 @@
+import { UnrecoverableError, Worker } from 'bullmq';
+import { Errors } from 'postmark';
+import { db } from '../src/db';
+import { getEmailTransport } from '../src/email/transport';
+import { PostmarkTransport } from '../src/email/postmark';
+import { setupQueueProcessor, type EmailJobData } from '../src/queue';
+
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Worker: jest.fn(),
+}));
+jest.mock('../src/db', () => ({
+  db: { report: { findUnique: jest.fn(), update: jest.fn() } },
+}));
+jest.mock('../src/email/transport', () => ({ getEmailTransport: jest.fn() }));
+jest.mock('../src/pdv-report/worker', () => ({}));
+jest.mock('../src/notifications/notify', () => ({ notify: jest.fn() }));
+
+const report = (db as any).report as Record<string, jest.Mock>;
+
+describe('PostmarkTransport.isPermanentError', () => {
+  // Needs no client, so no AUTH_POSTMARK_KEY
+  const transport = PostmarkTransport.prototype;
+
+  it.each([
+    ['an invalid request', new Errors.ApiInputError('Invalid To', 300, 422)],
+    [
+      'an inactive recipient',
+      new Errors.InactiveRecipientsError('Inactive', 406, 422),
+    ],
+    ['a bad server token', new Errors.InvalidAPIKeyError('Bad token', 10, 401)],
+  ])('treats %s as permanent', (_, error) => {
+    expect(transport.isPermanentError(error)).toBe(true);
+  });
+
+  it.each([
+    ['rate limiting', new Errors.RateLimitExceededError('Slow down', 0, 429)],
+    [
+      'a request timeout',
+      Object.assign(new Error('Timeout'), { statusCode: 408 }),
+    ],
+    ['a server error', new Errors.InternalServerError('Oops', 0, 500)],
+    [
+      'a network error',
+      Object.assign(new Error('Reset'), { code: 'ECONNRESET' }),
+    ],
+  ])('retries %s', (_, error) => {
+    expect(transport.isPermanentError(error)).toBe(false);
+  });
+});
+
+describe('EmailQueue processor', () => {
+  const data: EmailJobData = {
+    subdomain: 'acme',
+    reportId: 'report-1',
+    fromEmail: 'reports@example.com',
+    toEmail: 'owner@example.com',
+    subject: 'Your PDV Report - Acme is Ready',
+    htmlBody: '<p>Ready</p>',
+    textBody: 'Ready',
+    attachmentName: 'PDV Report - Acme.pdf',
+  };
+  const send = jest.fn();
+  const isPermanentError = jest.fn();
+  const deadLetterQueue = { name: 'EmailDeadLetterQueue', add: jest.fn() };
+  let processor: (job: unknown) => Promise<unknown>;
+
+  const runAttempt = (attemptsMade: number) =>
+    processor({
+      id: 'email-1',
+      queueName: 'EmailQueue',
+      data,
+      attemptsMade,
+      opts: { attempts: 3 },
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    (getEmailTransport as jest.Mock).mockReturnValue({
+      name: 'test',
+      send,
+      isPermanentError,
+    });
+    report.findUnique.mockResolvedValue({ pdfReportData: 'JVBERi0=' });
+    await setupQueueProcessor('EmailQueue', deadLetterQueue as any);
+    processor = (Worker as unknown as jest.Mock).mock.calls[0][1];
+  });
+
+  it('marks the report SENT once the transport accepts the email', async () => {
+    send.mockResolvedValue({ messageId: 'msg-1' });
+
+    await expect(runAttempt(0)).resolves.toEqual({
+      jobId: 'email-1',
+      messageId: 'msg-1',
+    });
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: {
+        emailId: 'msg-1',
+        deliveryStatus: 'SENT',
+        emailDeliveryError: null,
+      },
+    });
+  });
+
+  it('rethrows a transient error for BullMQ to retry', async () => {
+    const error = new Error('Service unavailable');
+    send.mockRejectedValue(error);
+    isPermanentError.mockReturnValue(false);
+
+    await expect(runAttempt(0)).rejects.toBe(error);
+    expect(report.update).not.toHaveBeenCalled();
+    expect(deadLetterQueue.add).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters the email after the last attempt', async () => {
+    const error = new Error('Service unavailable');
+    send.mockRejectedValue(error);
+    isPermanentError.mockReturnValue(false);
+
+    await expect(runAttempt(2)).rejects.toBe(error);
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: {
+        deliveryStatus: 'DELIVERY_FAILED',
+        emailDeliveryError: 'Service unavailable',
+      },
+    });
+    expect(deadLetterQueue.add).toHaveBeenCalledWith(
+      'DeadLetterEmail',
+      expect.objectContaining({
+        originalJobId: 'email-1',
+        data,
+        failedReason: 'Service unavailable',
+        attemptsMade: 3,
+      })
+    );
+  });
+
+  it('dead-letters a permanent error without retrying', async () => {
+    send.mockRejectedValue(new Error('Invalid To address'));
+    isPermanentError.mockReturnValue(true);
+
+    await expect(runAttempt(0)).rejects.toBeInstanceOf(UnrecoverableError);
+    expect(deadLetterQueue.add).toHaveBeenCalledWith(
+      'DeadLetterEmail',
+      expect.objectContaining({ attemptsMade: 1 })
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import type { env as Env } from '../src/env';
+
+// Load src/env.ts afresh with `overrides` applied to process.env;
+// undefined removes a variable
+function loadEnv(overrides: Record<string, string | undefined>): typeof Env {
+  const saved = process.env;
+  process.env = { ...saved };
+  for (const [name, value] of Object.entries(overrides)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+  try {
+    let loaded: typeof Env | undefined;
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      loaded = require('../src/env').env;
+    });
+    return loaded!;
+  } finally {
+    process.env = saved;
+  }
+}
+
+describe('env', () => {
+  it('does not require SMTP settings with the Postmark transport', () => {
+    const env = loadEnv({
+      EMAIL_TRANSPORT: 'postmark',
+      AUTH_POSTMARK_KEY: 'server-token',
+      SMTP_HOST: undefined,
+      SMTP_USER: undefined,
+      SMTP_PASSWORD: undefined,
+    });
+
+    expect(env.AUTH_POSTMARK_KEY).toBe('server-token');
+    expect(env.SMTP_HOST).toBe('');
+  });
+
+  it('does not require a Postmark key with the SMTP transport', () => {
+    const env = loadEnv({
+      EMAIL_TRANSPORT: 'smtp',
+      AUTH_POSTMARK_KEY: undefined,
+      SMTP_HOST: 'smtp.example.com',
+    });
+
+    expect(env.AUTH_POSTMARK_KEY).toBe('');
+  });
+
+  it('boots without Postmark webhook credentials', () => {
+    const env = loadEnv({
+      POSTMARK_WEBHOOK_TOKEN: undefined,
+      POSTMARK_WEBHOOK_BASIC_AUTH: undefined,
+    });
+
+    expect(env.POSTMARK_WEBHOOK_TOKEN).toBe('');
+    expect(env.POSTMARK_WEBHOOK_BASIC_AUTH).toBe('');
+  });
+
+  it('accepts only one Postmark webhook credential', () => {
+    const env = loadEnv({
+      POSTMARK_WEBHOOK_TOKEN: 'secret-token',
+      POSTMARK_WEBHOOK_BASIC_AUTH: undefined,
+    });
+
+    expect(env.POSTMARK_WEBHOOK_TOKEN).toBe('secret-token');
+  });
+
+  it('runs the fixture LLM backend without an Anthropic key', () => {
+    const env = loadEnv({
+      LLM_PROVIDER: 'fixture',
+      ANTHROPIC_API_KEY: undefined,
+    });
+
+    expect(env.ANTHROPIC_API_KEY).toBe('');
+  });
+});
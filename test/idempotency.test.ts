@@ -0,0 +1,132 @@
+import type { Queue } from 'bullmq';
+import {
+  addIdempotentJob,
+  idempotencyKeyFrom,
+  idempotentJobId,
+  isReplaceableJob,
+} from '../src/idempotency';
+
+describe('idempotentJobId', () => {
+  it('is derived from the report id', () => {
+    expect(idempotentJobId('pdv', 'report-1')).toBe('pdv-report-1');
+  });
+
+  it('adds a stable hash of the idempotency key', () => {
+    const id = idempotentJobId('pdv', 'report-1', 'client:key');
+
+    expect(id).toMatch(/^pdv-report-1-[0-9a-f]{16}$/);
+    expect(idempotentJobId('pdv', 'report-1', 'client:key')).toBe(id);
+    expect(idempotentJobId('pdv', 'report-1', 'other')).not.toBe(id);
+  });
+
+  it('works with only an idempotency key', () => {
+    expect(idempotentJobId('email', null, 'key')).toMatch(
+      /^email-key-[0-9a-f]{16}$/
+    );
+  });
+
+  it('leaves the id to BullMQ without a report id or key', () => {
+    expect(idempotentJobId('pdv')).toBeUndefined();
+  });
+});
+
+describe('idempotencyKeyFrom', () => {
+  it('reads the trimmed header', () => {
+    expect(idempotencyKeyFrom({ 'idempotency-key': ' abc ' })).toBe('abc');
+  });
+
+  it('uses the first of repeated headers', () => {
+    expect(idempotencyKeyFrom({ 'idempotency-key': ['a', 'b'] })).toBe('a');
+  });
+
+  it('ignores a missing or blank header', () => {
+    expect(idempotencyKeyFrom({})).toBeUndefined();
+    expect(idempotencyKeyFrom({ 'idempotency-key': '  ' })).toBeUndefined();
+  });
+});
+
+describe('isReplaceableJob', () => {
+  it.each([
+    ['failed', undefined, true],
+    ['completed', { success: false }, true],
+    ['completed', { success: true, partialFailure: true }, true],
+    ['completed', { success: true, partialFailure: false }, false],
+    ['completed', null, false],
+    ['active', undefined, false],
+    ['delayed', undefined, false],
+  ] as const)('%s with %j → %s', (state, returnValue, expected) => {
+    expect(isReplaceableJob(state, returnValue)).toBe(expected);
+  });
+});
+
+describe('addIdempotentJob', () => {
+  const newJob = { id: 'pdv-report-1', getState: async () => 'waiting' };
+  const queue = { getJob: jest.fn(), add: jest.fn() };
+
+  const existingJob = (state: string, returnvalue?: unknown) => ({
+    returnvalue,
+    getState: async () => state,
+    remove: jest.fn(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queue.add.mockResolvedValue(newJob);
+  });
+
+  const submit = () =>
+    addIdempotentJob(
+      queue as unknown as Queue,
+      'PDVReport',
+      { reportId: 'report-1' },
+      { jobId: 'pdv-report-1' }
+    );
+
+  it('enqueues a new job', async () => {
+    queue.getJob.mockResolvedValue(undefined);
+
+    await expect(submit()).resolves.toEqual({
+      jobId: 'pdv-report-1',
+      state: 'waiting',
+      duplicate: false,
+    });
+    expect(queue.add).toHaveBeenCalledWith(
+      'PDVReport',
+      expect.objectContaining({ reportId: 'report-1' }),
+      { jobId: 'pdv-report-1' }
+    );
+  });
+
+  it('returns a pending or successful job instead of enqueuing again', async () => {
+    const existing = existingJob('completed', { success: true });
+    queue.getJob.mockResolvedValue(existing);
+
+    await expect(submit()).resolves.toEqual({
+      jobId: 'pdv-report-1',
+      state: 'completed',
+      duplicate: true,
+    });
+    expect(existing.remove).not.toHaveBeenCalled();
+    expect(queue.add).not.toHaveBeenCalled();
+  });
+
+  it('replaces a failed job so the report can be resubmitted', async () => {
+    const existing = existingJob('failed');
+    queue.getJob.mockResolvedValue(existing);
+
+    await expect(submit()).resolves.toMatchObject({ duplicate: false });
+    expect(existing.remove).toHaveBeenCalled();
+    expect(queue.add).toHaveBeenCalled();
+  });
+
+  it('replaces a completed job that only partially succeeded', async () => {
+    const existing = existingJob('completed', {
+      success: true,
+      partialFailure: true,
+    });
+    queue.getJob.mockResolvedValue(existing);
+
+    await expect(submit()).resolves.toMatchObject({ duplicate: false });
+    expect(existing.remove).toHaveBeenCalled();
+  });
+});
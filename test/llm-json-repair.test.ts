@@ -0,0 +1,113 @@
+import type { LLMClient, LLMResponse } from '../src/pdv-report/llm/client';
+import type {
+  PromptSet,
+  RenderedPrompt,
+} from '../src/pdv-report/prompts/registry';
+import { responseSchemas } from '../src/pdv-report/schemas';
+import { callLLMForJSON, type LLMContext } from '../src/pdv-report/worker';
+import { env } from '../src/env';
+
+jest.mock('../src/db', () => ({ db: {} }));
+jest.mock('../src/pdv-report/checkpoint', () => ({}));
+jest.mock('../src/pdv-report/usage', () => ({}));
+jest.mock('../src/pdv-report/pdf-generator', () => ({}));
+jest.mock('../src/email/templates', () => ({}));
+
+const response = (text: string): LLMResponse => ({
+  text,
+  sources: [],
+  model: 'test-model',
+  stopReason: 'end_turn',
+  usage: { inputTokens: 10, outputTokens: 20, webSearchRequests: 0 },
+  contentBlocks: 1,
+});
+
+const extraction = {
+  yearsCollectingData: 5,
+  dataAttributablePercent: 40,
+  dataReliancePercent: 60,
+  currentCompanyValue: 1000000,
+  yearlyValuations: [100000, 120000],
+};
+
+describe('callLLMForJSON', () => {
+  const complete = jest.fn();
+  const llm: LLMContext = {
+    client: {
+      name: 'test',
+      complete,
+      isTransientError: () => false,
+    } as LLMClient,
+    settings: {
+      platform: {},
+      defaults: { model: 'test-model', maxTokens: 1000, webSearchMaxUses: 0 },
+    },
+    prompts: {} as PromptSet,
+    recordUsage: jest.fn(),
+  };
+  const rendered: RenderedPrompt = {
+    prompt: 'Extract the PDV inputs as JSON.',
+    options: {
+      promptDefaults: {},
+      systemPrompt: 'You are an analyst.',
+      metricName: 'pdvExtraction',
+    },
+  };
+  const schema = responseSchemas.pdvExtraction;
+
+  beforeEach(() => {
+    complete.mockReset();
+  });
+
+  it('returns a valid response without re-prompting', async () => {
+    complete.mockResolvedValue(
+      response(`\`\`\`json\n${JSON.stringify(extraction)}\n\`\`\``)
+    );
+
+    await expect(callLLMForJSON(llm, rendered, schema)).resolves.toEqual({
+      value: extraction,
+      sources: [],
+    });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-prompts with the validation errors and the previous response', async () => {
+    const invalid = JSON.stringify({ ...extraction, yearlyValuations: [] });
+    complete
+      .mockResolvedValueOnce(response(invalid))
+      .mockResolvedValueOnce(response(JSON.stringify(extraction)));
+
+    await expect(callLLMForJSON(llm, rendered, schema)).resolves.toMatchObject({
+      value: extraction,
+    });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    const repair: string = complete.mock.calls[1][0].prompt;
+    expect(repair).toContain(rendered.prompt);
+    expect(repair).toContain('response.yearlyValuations');
+    expect(repair).toContain(`Previous response:\n${invalid}`);
+  });
+
+  it('re-prompts when the response is not JSON at all', async () => {
+    complete
+      .mockResolvedValueOnce(response('I could not produce the data.'))
+      .mockResolvedValueOnce(response(JSON.stringify(extraction)));
+
+    await callLLMForJSON(llm, rendered, schema);
+
+    expect(complete.mock.calls[1][0].prompt).toContain(
+      'response is not valid JSON'
+    );
+  });
+
+  it('fails after LLM_JSON_REPAIR_ATTEMPTS re-prompts', async () => {
+    complete.mockResolvedValue(response('{"yearsCollectingData": -1}'));
+
+    await expect(callLLMForJSON(llm, rendered, schema)).rejects.toThrow(
+      `PDV extraction response is invalid after ${
+        env.LLM_JSON_REPAIR_ATTEMPTS + 1
+      } attempt(s)`
+    );
+    expect(complete).toHaveBeenCalledTimes(env.LLM_JSON_REPAIR_ATTEMPTS + 1);
+  });
+});
@@ -0,0 +1,168 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { jwtVerify } from 'jose';
+import {
+  isInAudience,
+  verifyNotificationStreamToken,
+  verifyNotificationToken,
+} from '../src/notifications/auth';
+
+// jose only ships as an ES module, which this Jest setup cannot load; the
+// signature and expiry checks are its own, so only the options are checked
+jest.mock('jose', () => ({ jwtVerify: jest.fn() }));
+
+const mockJwtVerify = jwtVerify as jest.Mock;
+
+const payload = {
+  sub: 'user-1',
+  aud: 'notification-stream',
+  organizationId: 'org-1',
+  platformId: 'platform-1',
+  role: 'ADMIN',
+};
+
+describe('verifyNotificationToken', () => {
+  beforeEach(() => {
+    mockJwtVerify.mockReset();
+  });
+
+  it('returns the claims of a valid token', async () => {
+    mockJwtVerify.mockResolvedValue({ payload });
+
+    await expect(verifyNotificationToken('token')).resolves.toEqual({
+      userId: 'user-1',
+      organizationId: 'org-1',
+      platformId: 'platform-1',
+      role: 'ADMIN',
+    });
+  });
+
+  it('only accepts short-lived HS256 stream tokens signed with AUTH_SECRET', async () => {
+    mockJwtVerify.mockResolvedValue({ payload });
+
+    await verifyNotificationToken('token');
+
+    const [token, secret, options] = mockJwtVerify.mock.calls[0];
+    expect(token).toBe('token');
+    expect(new TextDecoder().decode(secret)).toBe(process.env.AUTH_SECRET);
+    expect(options).toEqual({
+      algorithms: ['HS256'],
+      audience: 'notification-stream',
+      maxTokenAge: '15m',
+      requiredClaims: ['sub', 'exp', 'iat'],
+    });
+  });
+
+  it('rejects tokens that fail verification', async () => {
+    mockJwtVerify.mockRejectedValue(new Error('signature verification failed'));
+
+    await expect(verifyNotificationToken('token')).rejects.toThrow(
+      'signature verification failed'
+    );
+  });
+
+  it.each(['organizationId', 'platformId'])(
+    'rejects tokens without %s',
+    async (claim) => {
+      mockJwtVerify.mockResolvedValue({
+        payload: { ...payload, [claim]: undefined },
+      });
+
+      await expect(verifyNotificationToken('token')).rejects.toThrow(
+        'Token is missing organizationId/platformId claims'
+      );
+    }
+  );
+
+  it('rejects tokens with an unknown role', async () => {
+    mockJwtVerify.mockResolvedValue({ payload: { ...payload, role: 'ALL' } });
+
+    await expect(verifyNotificationToken('token')).rejects.toThrow(
+      'Token has invalid role claim: ALL'
+    );
+  });
+});
+
+describe('isInAudience', () => {
+  it.each([
+    ['ADMIN', 'ALL', true],
+    ['USER', 'ALL', true],
+    ['ADMIN', 'ADMIN', true],
+    ['USER', 'ADMIN', false],
+    ['USER', 'USER', true],
+    ['ADMIN', 'USER', false],
+    ['USER', undefined, true],
+    ['ADMIN', undefined, false],
+  ] as const)('%s sees %s notifications: %s', (role, audience, expected) => {
+    expect(isInAudience(role, audience)).toBe(expected);
+  });
+});
+
+describe('verifyNotificationStreamToken', () => {
+  const reply = () => {
+    const res = { status: jest.fn(), send: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+  const request = (fields: object) => fields as unknown as FastifyRequest;
+
+  beforeEach(() => {
+    mockJwtVerify.mockReset();
+  });
+
+  it('stores the claims of a token from the query string', async () => {
+    mockJwtVerify.mockResolvedValue({ payload });
+    const req = request({ query: { token: 'query-token' } });
+    const res = reply();
+
+    await verifyNotificationStreamToken(req, res as unknown as FastifyReply);
+
+    expect(mockJwtVerify.mock.calls[0][0]).toBe('query-token');
+    expect(req.notificationClaims).toMatchObject({ userId: 'user-1' });
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the token cookie', async () => {
+    mockJwtVerify.mockResolvedValue({ payload });
+    const req = request({
+      query: {},
+      cookies: { notification_token: 'cookie-token' },
+    });
+
+    await verifyNotificationStreamToken(
+      req,
+      reply() as unknown as FastifyReply
+    );
+
+    expect(mockJwtVerify.mock.calls[0][0]).toBe('cookie-token');
+  });
+
+  it('rejects a request without a token', async () => {
+    const res = reply();
+
+    await verifyNotificationStreamToken(
+      request({ query: {} }),
+      res as unknown as FastifyReply
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.send).toHaveBeenCalledWith({
+      ok: false,
+      error: 'Missing notification token',
+    });
+    expect(mockJwtVerify).not.toHaveBeenCalled();
+  });
+
+  it('rejects a request with an invalid token', async () => {
+    mockJwtVerify.mockRejectedValue(
+      new Error('"exp" claim timestamp check failed')
+    );
+    const req = request({ query: { token: 'expired' } });
+    const res = reply();
+
+    await verifyNotificationStreamToken(req, res as unknown as FastifyReply);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.send).toHaveBeenCalledWith({ ok: false, error: 'Unauthorized' });
+    expect(req.notificationClaims).toBeUndefined();
+  });
+});
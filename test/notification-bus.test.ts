@@ -0,0 +1,119 @@
+import {
+  closeNotificationBus,
+  jobProgressChannel,
+  notificationChannel,
+  publishJobProgress,
+  publishNotification,
+  subscribeToJobProgress,
+  subscribeToNotifications,
+  type JobProgressPayload,
+} from '../src/notifications/bus';
+import { createRedisClient } from '../src/redis';
+
+// Every client shares one in-memory broker, standing in for Redis pub/sub
+// between replicas
+jest.mock('../src/redis', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  const broker = new EventEmitter();
+  return {
+    createRedisClient: jest.fn(() => {
+      const client = new EventEmitter();
+      const relay = (channel: string, message: string) =>
+        client.emit('pmessage', '*', channel, message);
+      Object.assign(client, {
+        publish: jest.fn(async (channel: string, message: string) => {
+          broker.emit('message', channel, message);
+          return 1;
+        }),
+        psubscribe: jest.fn(async () => {
+          broker.on('message', relay);
+        }),
+        quit: jest.fn(async () => {
+          broker.off('message', relay);
+          return 'OK';
+        }),
+      });
+      return client;
+    }),
+  };
+});
+
+const notification = {
+  notificationTitle: 'Report ready',
+  notificationDescription: 'Your report is ready',
+  notificationRead: 'false',
+  organizationId: 'org-1',
+  platformId: 'platform-1',
+};
+
+const progress: JobProgressPayload = {
+  queue: 'pdv-report',
+  jobId: 'job-1',
+  reportId: 'report-1',
+  organizationId: 'org-1',
+  platformId: 'platform-1',
+  progress: { stage: 'PRE_PDV', percent: 40, message: 'Writing the summary' },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('notification bus', () => {
+  afterEach(async () => {
+    await closeNotificationBus();
+  });
+
+  it('names channels by platform and organisation', () => {
+    expect(notificationChannel('platform-1', 'org-1')).toBe(
+      'notificationEvent_platform-1_org-1'
+    );
+    expect(jobProgressChannel('platform-1', 'org-1')).toBe(
+      'jobProgressEvent_platform-1_org-1'
+    );
+  });
+
+  it("delivers a notification only to its organisation's listeners", async () => {
+    const listener = jest.fn();
+    const otherOrg = jest.fn();
+    const progressListener = jest.fn();
+    subscribeToNotifications('platform-1', 'org-1', listener);
+    subscribeToNotifications('platform-1', 'org-2', otherOrg);
+    subscribeToJobProgress('platform-1', 'org-1', progressListener);
+
+    await publishNotification(notification);
+
+    expect(listener).toHaveBeenCalledWith(notification);
+    expect(otherOrg).not.toHaveBeenCalled();
+    expect(progressListener).not.toHaveBeenCalled();
+  });
+
+  it('delivers job progress on its own channel', async () => {
+    const listener = jest.fn();
+    const progressListener = jest.fn();
+    subscribeToNotifications('platform-1', 'org-1', listener);
+    subscribeToJobProgress('platform-1', 'org-1', progressListener);
+
+    await publishJobProgress(progress);
+
+    expect(progressListener).toHaveBeenCalledWith(progress);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering once a listener is detached', async () => {
+    const listener = jest.fn();
+    const detach = subscribeToNotifications('platform-1', 'org-1', listener);
+
+    detach();
+    await publishNotification(notification);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('shares one subscriber connection between listeners', async () => {
+    (createRedisClient as jest.Mock).mockClear();
+
+    subscribeToNotifications('platform-1', 'org-1', jest.fn());
+    subscribeToNotifications('platform-1', 'org-2', jest.fn());
+    subscribeToJobProgress('platform-1', 'org-1', jest.fn());
+
+    expect(createRedisClient).toHaveBeenCalledTimes(1);
+  });
+});
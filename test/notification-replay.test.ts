@@ -0,0 +1,106 @@
+import { db } from '../src/db';
+import type { NotificationTokenClaims } from '../src/notifications/auth';
+import { findMissedNotifications } from '../src/notifications/replay';
+
+jest.mock('../src/db', () => ({
+  db: {
+    organizationNotification: { findFirst: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+const mockDb = db as any;
+
+const claims: NotificationTokenClaims = {
+  userId: 'user-1',
+  organizationId: 'org-1',
+  platformId: 'platform-1',
+  role: 'USER',
+};
+
+const row = {
+  id: 'notification-2',
+  notificationTitle: 'Report ready',
+  notificationDescription: 'Your report is ready',
+  refLink: null,
+  notificationRead: false,
+  targetAudience: 'ALL',
+  createdAt: new Date('2026-01-01T10:00:00Z'),
+  organizationId: 'org-1',
+  platformId: 'platform-1',
+};
+
+describe('findMissedNotifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.organizationNotification.findMany.mockResolvedValue([row]);
+  });
+
+  it('replays what was written after the last event the client saw', async () => {
+    const lastSeenAt = new Date('2026-01-01T09:00:00Z');
+    mockDb.organizationNotification.findFirst.mockResolvedValue({
+      createdAt: lastSeenAt,
+    });
+
+    const missed = await findMissedNotifications(claims, 'notification-1');
+
+    expect(mockDb.organizationNotification.findFirst).toHaveBeenCalledWith({
+      where: {
+        id: 'notification-1',
+        platformId: 'platform-1',
+        organizationId: 'org-1',
+      },
+      select: { createdAt: true },
+    });
+    expect(mockDb.organizationNotification.findMany).toHaveBeenCalledWith({
+      where: {
+        platformId: 'platform-1',
+        organizationId: 'org-1',
+        targetAudience: { in: ['ALL', 'USER'] },
+        createdAt: { gt: lastSeenAt },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+    expect(missed).toEqual([
+      {
+        id: 'notification-2',
+        notificationTitle: 'Report ready',
+        notificationDescription: 'Your report is ready',
+        refLink: '',
+        notificationRead: 'false',
+        targetAudience: 'ALL',
+        createdAt: '2026-01-01T10:00:00.000Z',
+        organizationId: 'org-1',
+        platformId: 'platform-1',
+      },
+    ]);
+  });
+
+  it('replays every unread notification when the last event id is unknown', async () => {
+    mockDb.organizationNotification.findFirst.mockResolvedValue(null);
+
+    await findMissedNotifications(claims, 'deleted-notification');
+
+    expect(mockDb.organizationNotification.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          platformId: 'platform-1',
+          organizationId: 'org-1',
+          targetAudience: { in: ['ALL', 'USER'] },
+          notificationRead: false,
+        },
+      })
+    );
+  });
+
+  it("only replays notifications addressed to the subscriber's role", async () => {
+    mockDb.organizationNotification.findFirst.mockResolvedValue(null);
+
+    await findMissedNotifications({ ...claims, role: 'ADMIN' }, 'x');
+
+    expect(
+      mockDb.organizationNotification.findMany.mock.calls[0][0].where
+        .targetAudience
+    ).toEqual({ in: ['ALL', 'ADMIN'] });
+  });
+});
@@ -0,0 +1,123 @@
+import { db } from '../src/db';
+import { publishNotification } from '../src/notifications/bus';
+import { notificationCatalogue } from '../src/notifications/catalogue';
+import { notify } from '../src/notifications/notify';
+
+jest.mock('../src/db', () => ({
+  db: { organizationNotification: { create: jest.fn() } },
+}));
+jest.mock('../src/notifications/bus', () => ({
+  ...jest.requireActual('../src/notifications/bus'),
+  publishNotification: jest.fn(),
+}));
+
+const mockDb = db as any;
+const target = { organizationId: 'org-1', platformId: 'platform-1' };
+
+describe('notificationCatalogue', () => {
+  it('mentions the scheduled email of a generated report', () => {
+    const { description } = notificationCatalogue.PDV_REPORT_GENERATED;
+
+    expect(description({ reportId: 'report-1', emailScheduled: true })).toBe(
+      'Your PDV report has been generated successfully. Email delivery has been scheduled.'
+    );
+    expect(description({ reportId: 'report-1', emailScheduled: false })).toBe(
+      'Your PDV report has been generated successfully.'
+    );
+  });
+
+  it.each([
+    ['held', 'Its email is on hold until an admin approves it.'],
+    ['scheduled', 'Its email was scheduled anyway.'],
+    ['none', 'No email could be prepared, so nothing was sent.'],
+  ] as const)(
+    'lists the failed stages of a partial report whose email is %s',
+    (email, status) => {
+      const { description } = notificationCatalogue.PDV_REPORT_NEEDS_REVIEW;
+
+      expect(
+        description({
+          reportId: 'report-1',
+          failedStages: ['supplementary', 'pdvCalculation'],
+          email,
+        })
+      ).toBe(
+        `A PDV report was generated with failed stages (supplementary, pdvCalculation). ${status}`
+      );
+    }
+  );
+
+  it('addresses each event to its audience', () => {
+    expect(
+      Object.fromEntries(
+        Object.entries(notificationCatalogue).map(([key, template]) => [
+          key,
+          template.targetAudience,
+        ])
+      )
+    ).toEqual({
+      PDV_REPORT_GENERATED: 'USER',
+      PDV_REPORT_DELIVERED: 'USER',
+      PDV_REPORT_NEEDS_REVIEW: 'ADMIN',
+      PDV_REPORT_EMAIL_BOUNCED: 'ALL',
+    });
+  });
+});
+
+describe('notify', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.organizationNotification.create.mockImplementation(
+      async ({ data }: { data: object }) => ({
+        id: 'notification-1',
+        createdAt: new Date('2026-01-01T10:00:00Z'),
+        ...data,
+      })
+    );
+  });
+
+  it('stores the rendered notification and publishes the stored row', async () => {
+    const payload = await notify('PDV_REPORT_EMAIL_BOUNCED', target, {
+      reportId: 'report-1',
+      recipient: 'jane@example.com',
+      reason: 'Mailbox full',
+    });
+
+    expect(mockDb.organizationNotification.create).toHaveBeenCalledWith({
+      data: {
+        notificationTitle: 'PDV Report Email Bounced',
+        notificationDescription:
+          'The PDV report email to jane@example.com could not be delivered: Mailbox full',
+        refLink: '',
+        notificationRead: false,
+        targetAudience: 'ALL',
+        organizationId: 'org-1',
+        platformId: 'platform-1',
+      },
+    });
+    expect(payload).toEqual({
+      id: 'notification-1',
+      notificationTitle: 'PDV Report Email Bounced',
+      notificationDescription:
+        'The PDV report email to jane@example.com could not be delivered: Mailbox full',
+      refLink: '',
+      notificationRead: 'false',
+      targetAudience: 'ALL',
+      createdAt: '2026-01-01T10:00:00.000Z',
+      organizationId: 'org-1',
+      platformId: 'platform-1',
+    });
+    expect(publishNotification).toHaveBeenCalledWith(payload);
+  });
+
+  it('does not publish a notification that could not be stored', async () => {
+    mockDb.organizationNotification.create.mockRejectedValue(
+      new Error('db down')
+    );
+
+    await expect(
+      notify('PDV_REPORT_DELIVERED', target, { reportId: 'report-1' })
+    ).rejects.toThrow('db down');
+    expect(publishNotification).not.toHaveBeenCalled();
+  });
+});
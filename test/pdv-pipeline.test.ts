@@ -0,0 +1,114 @@
+import { Blob } from 'buffer';
+import { db } from '../src/db';
+import { env } from '../src/env';
+import { generateUnifiedADVPDFClient } from '../src/pdv-report/pdf-generator';
+import {
+  processPDVReportJob,
+  type PDVReportJobData,
+} from '../src/pdv-report/worker';
+
+jest.mock('../src/db', () => ({
+  db: {
+    report: { findUnique: jest.fn(), update: jest.fn() },
+    promptVersion: { findMany: jest.fn() },
+    platformADVSetting: { findUnique: jest.fn() },
+    platformEmailSetting: { findUnique: jest.fn() },
+    claudeUsage: { create: jest.fn() },
+  },
+}));
+// The generated client uses package.json "imports", which Jest 27 can't
+// resolve; only Prisma.DbNull is needed here
+jest.mock('@prisma/client', () => ({ Prisma: { DbNull: 'DbNull' } }));
+// Rendering needs the native canvas module; the test covers what the
+// pipeline hands to it
+jest.mock('../src/pdv-report/pdf-generator', () => ({
+  generateUnifiedADVPDFClient: jest.fn(),
+}));
+
+const mockDb = db as any;
+const renderPDF = generateUnifiedADVPDFClient as jest.Mock;
+
+// Runs the whole pipeline on the recorded responses in fixtures/llm
+describe('PDV pipeline on the fixture LLM backend', () => {
+  const jobData: PDVReportJobData = {
+    reportId: 'report-1',
+    orgName: 'Acme Analytics',
+    workflowId: 'workflow-1',
+    reportType: 'PDV',
+    userEmail: 'owner@example.com',
+    platformId: null,
+    organizationId: 'org-1',
+    orgWorkflowId: 'org-workflow-1',
+    subdomain: 'acme',
+    enableADV: true,
+    pdvAnswers: [
+      { question: 'How many years have you collected data?', answer: '6' },
+      { question: 'What is the company worth?', answer: '$10,000,000' },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.report.findUnique.mockResolvedValue(null);
+    mockDb.promptVersion.findMany.mockResolvedValue([]);
+    renderPDF.mockResolvedValue(new Blob(['%PDF-1.3']));
+  });
+
+  it('uses the fixture backend', () => {
+    expect(env.LLM_PROVIDER).toBe('fixture');
+  });
+
+  it('generates and saves a complete report', async () => {
+    const result = await processPDVReportJob(jobData);
+
+    expect(result).toMatchObject({ success: true, partialFailure: false });
+    expect(result.stageOutcomes).toEqual({
+      prePDV: { status: 'ok' },
+      supplementary: { status: 'ok' },
+      pdvCalculation: { status: 'ok' },
+      pdf: { status: 'ok' },
+    });
+    expect(result.emailData).toMatchObject({
+      reportId: 'report-1',
+      toEmail: 'owner@example.com',
+      attachmentName: 'PDV Report - Acme Analytics.pdf',
+    });
+
+    const [orgName, preADV, supplementary, adv] = renderPDF.mock.calls[0];
+    expect(orgName).toBe('Acme Analytics');
+    expect(preADV.summary.summary).toContain('data asset');
+    expect(supplementary.comparisonTable.length).toBeGreaterThan(0);
+    expect(adv).not.toBeNull();
+
+    const saved = mockDb.report.update.mock.calls
+      .map(([update]: [{ data: Record<string, unknown> }]) => update.data)
+      .find((data: Record<string, unknown>) => 'pdfReportData' in data);
+    expect(saved).toMatchObject({
+      pdfReportData: Buffer.from('%PDF-1.3').toString('base64'),
+      lowerADVRange: expect.any(String),
+      upperADVRange: expect.any(String),
+      pdvCheckpoint: 'DbNull',
+    });
+    expect(mockDb.claudeUsage.create).toHaveBeenCalled();
+  });
+
+  it('skips the PDV calculation when ADV is disabled', async () => {
+    const result = await processPDVReportJob({ ...jobData, enableADV: false });
+
+    expect(result).toMatchObject({ success: true, partialFailure: false });
+    expect(result.stageOutcomes.pdvCalculation).toEqual({
+      status: 'skipped',
+      reason: 'ADV disabled for this report',
+    });
+  });
+
+  it('skips the PDV calculation without PDV answers', async () => {
+    const result = await processPDVReportJob({ ...jobData, pdvAnswers: [] });
+
+    expect(result).toMatchObject({ success: true, partialFailure: false });
+    expect(result.stageOutcomes.pdvCalculation).toEqual({
+      status: 'skipped',
+      reason: 'No PDV answers',
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { Worker } from 'bullmq';
+import { db } from '../src/db';
+import { env } from '../src/env';
+import { notify } from '../src/notifications/notify';
+import {
+  processPDVReportJob,
+  type PDVReportJobData,
+  type PDVReportJobResult,
+} from '../src/pdv-report/worker';
+import { setupPDVReportProcessor } from '../src/queue';
+
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Worker: jest.fn(),
+}));
+jest.mock('../src/db', () => ({
+  db: { report: { findUnique: jest.fn(), update: jest.fn() } },
+}));
+// A mutable copy, so tests can switch PDV_PARTIAL_FAILURE_POLICY
+jest.mock('../src/env', () => ({
+  env: { ...jest.requireActual('../src/env').env },
+}));
+jest.mock('../src/notifications/notify', () => ({ notify: jest.fn() }));
+jest.mock('../src/pdv-report/worker', () => ({
+  processPDVReportJob: jest.fn(),
+}));
+jest.mock('../src/pdv-report/progress', () => ({
+  createJobProgressReporter: () => jest.fn(),
+}));
+jest.mock('../src/delivery-delay', () => ({
+  resolveEmailDelay: jest.fn(async () => 0),
+}));
+
+const report = (db as any).report as Record<string, jest.Mock>;
+const mutableEnv = env as {
+  -readonly [K in keyof typeof env]: (typeof env)[K];
+};
+const runPipeline = processPDVReportJob as jest.Mock;
+
+describe('PDVReportQueue processor', () => {
+  const jobData = {
+    reportId: 'report-1',
+    orgName: 'Acme',
+    organizationId: 'org-1',
+    platformId: 'platform-1',
+  } as PDVReportJobData;
+  const target = { organizationId: 'org-1', platformId: 'platform-1' };
+  const emailData = {
+    subdomain: 'acme',
+    reportId: 'report-1',
+    fromEmail: 'reports@example.com',
+    toEmail: 'owner@example.com',
+    subject: 'Your PDV Report - Acme is Ready',
+    htmlBody: '<p>Ready</p>',
+    textBody: 'Ready',
+    attachmentName: 'PDV Report - Acme.pdf',
+  };
+  const partial: PDVReportJobResult = {
+    success: true,
+    partialFailure: true,
+    stageOutcomes: {
+      prePDV: { status: 'ok' },
+      supplementary: { status: 'failed', reason: 'Invalid', retryable: false },
+    },
+    emailData,
+  };
+  const emailQueue = { add: jest.fn(), getJob: jest.fn() };
+  const reviewQueue = { add: jest.fn(), getJob: jest.fn() };
+  let processor: (job: unknown) => Promise<unknown>;
+
+  const run = (result: PDVReportJobResult) => {
+    runPipeline.mockResolvedValue(result);
+    return processor({
+      id: 'pdv-report-1',
+      timestamp: 1700000000000,
+      queueName: 'PDVReportQueue',
+      data: jobData,
+      attemptsMade: 0,
+      opts: { attempts: 1 },
+    });
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mutableEnv.PDV_PARTIAL_FAILURE_POLICY = 'review';
+    emailQueue.add.mockImplementation(async (_name, _data, opts) => ({
+      id: opts.jobId,
+    }));
+    emailQueue.getJob.mockResolvedValue(undefined);
+    reviewQueue.getJob.mockResolvedValue(undefined);
+    report.findUnique.mockResolvedValue(null);
+    reviewQueue.add.mockResolvedValue({ id: 'review-report-1' });
+    await setupPDVReportProcessor(
+      'PDVReportQueue',
+      emailQueue as any,
+      reviewQueue as any
+    );
+    processor = (Worker as unknown as jest.Mock).mock.calls[0][1];
+  });
+
+  it('schedules the email of a complete report', async () => {
+    await run({
+      success: true,
+      partialFailure: false,
+      stageOutcomes: { prePDV: { status: 'ok' } },
+      emailData,
+    });
+
+    expect(emailQueue.add).toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_GENERATED', target, {
+      reportId: 'report-1',
+      emailScheduled: true,
+    });
+  });
+
+  it('holds the email of a partial report for review', async () => {
+    await run(partial);
+
+    expect(reviewQueue.add).toHaveBeenCalled();
+    expect(emailQueue.add).not.toHaveBeenCalled();
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { deliveryStatus: 'PENDING_REVIEW' },
+    });
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_NEEDS_REVIEW', target, {
+      reportId: 'report-1',
+      failedStages: ['supplementary'],
+      email: 'held',
+    });
+  });
+
+  it('emails a partial report under the send policy and tells the admins', async () => {
+    mutableEnv.PDV_PARTIAL_FAILURE_POLICY = 'send';
+
+    await run(partial);
+
+    expect(emailQueue.add).toHaveBeenCalled();
+    expect(reviewQueue.add).not.toHaveBeenCalled();
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_NEEDS_REVIEW', target, {
+      reportId: 'report-1',
+      failedStages: ['supplementary'],
+      email: 'scheduled',
+    });
+  });
+
+  it('flags a partial report without an email for review', async () => {
+    await run({ ...partial, emailData: undefined });
+
+    expect(reviewQueue.add).not.toHaveBeenCalled();
+    expect(emailQueue.add).not.toHaveBeenCalled();
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { deliveryStatus: 'PENDING_REVIEW' },
+    });
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_NEEDS_REVIEW', target, {
+      reportId: 'report-1',
+      failedStages: ['supplementary'],
+      email: 'none',
+    });
+  });
+
+  it('sends no notification for a failed report', async () => {
+    await run({
+      success: false,
+      error: 'Database unavailable',
+      partialFailure: false,
+      stageOutcomes: {},
+    });
+
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  describe('job ids', () => {
+    const complete: PDVReportJobResult = {
+      success: true,
+      partialFailure: false,
+      stageOutcomes: { prePDV: { status: 'ok' } },
+      emailData,
+    };
+    const pendingJob = (id: string, state: string) => ({
+      id,
+      getState: async () => state,
+      remove: jest.fn(),
+    });
+
+    it('schedules one email job per run', async () => {
+      await run(complete);
+
+      expect(emailQueue.add).toHaveBeenCalledWith(
+        'Email',
+        expect.objectContaining({ reportId: 'report-1' }),
+        { delay: 0, jobId: 'email-pdv-report-1-1700000000000' }
+      );
+      expect(report.update).toHaveBeenCalledWith({
+        where: { id: 'report-1' },
+        data: { bullMQJobId: 'email-pdv-report-1-1700000000000' },
+      });
+    });
+
+    it('keeps the email job when the same run is processed again', async () => {
+      emailQueue.getJob.mockResolvedValue(
+        pendingJob('email-pdv-report-1-1700000000000', 'delayed')
+      );
+
+      await run(complete);
+
+      expect(emailQueue.add).not.toHaveBeenCalled();
+    });
+
+    it("replaces an earlier run's unsent email", async () => {
+      const previous = pendingJob(
+        'email-pdv-report-1-1600000000000',
+        'delayed'
+      );
+      report.findUnique.mockResolvedValue({ bullMQJobId: previous.id });
+      emailQueue.getJob.mockImplementation(async (id: string) =>
+        id === previous.id ? previous : undefined
+      );
+
+      await run(complete);
+
+      expect(previous.remove).toHaveBeenCalled();
+      expect(emailQueue.add).toHaveBeenCalled();
+    });
+
+    it("leaves an earlier run's sent email alone", async () => {
+      const previous = pendingJob(
+        'email-pdv-report-1-1600000000000',
+        'completed'
+      );
+      report.findUnique.mockResolvedValue({ bullMQJobId: previous.id });
+      emailQueue.getJob.mockImplementation(async (id: string) =>
+        id === previous.id ? previous : undefined
+      );
+
+      await run(complete);
+
+      expect(previous.remove).not.toHaveBeenCalled();
+      expect(emailQueue.add).toHaveBeenCalled();
+    });
+
+    it('replaces the email held by an earlier run', async () => {
+      const held = pendingJob('review-report-1', 'waiting');
+      reviewQueue.getJob.mockResolvedValue(held);
+
+      await run(partial);
+
+      expect(reviewQueue.getJob).toHaveBeenCalledWith('review-report-1');
+      expect(held.remove).toHaveBeenCalled();
+      expect(reviewQueue.add).toHaveBeenCalledWith(
+        'ReviewEmail',
+        expect.objectContaining({ htmlBody: '<p>Ready</p>' }),
+        { jobId: 'review-report-1' }
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { db } from '../src/db';
+import { notify } from '../src/notifications/notify';
+import {
+  handlePostmarkWebhook,
+  isAuthorizedPostmarkWebhook,
+  type PostmarkWebhookAuth,
+} from '../src/postmark-webhook';
+
+jest.mock('../src/db', () => ({
+  db: { report: { findFirst: jest.fn(), update: jest.fn() } },
+}));
+jest.mock('../src/notifications/notify', () => ({ notify: jest.fn() }));
+
+const report = (db as any).report as Record<string, jest.Mock>;
+
+describe('handlePostmarkWebhook', () => {
+  const sentReport = {
+    id: 'report-1',
+    platformId: 'platform-1',
+    deliveryStatus: 'SENT',
+    emailOpenedAt: null,
+    organisationWorkflow: { organizationId: 'org-1' },
+  };
+  const target = { organizationId: 'org-1', platformId: 'platform-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    report.findFirst.mockResolvedValue(sentReport);
+  });
+
+  it('marks a delivered report DELIVERED and notifies', async () => {
+    await expect(
+      handlePostmarkWebhook({
+        RecordType: 'Delivery',
+        MessageID: 'msg-1',
+        DeliveredAt: '2026-01-01T10:00:00Z',
+      })
+    ).resolves.toEqual({
+      matched: true,
+      reportId: 'report-1',
+      recordType: 'Delivery',
+    });
+
+    expect(report.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { emailId: 'msg-1' } })
+    );
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: {
+        deliveryStatus: 'DELIVERED',
+        emailDeliveredAt: new Date('2026-01-01T10:00:00Z'),
+        emailDeliveryError: null,
+      },
+    });
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_DELIVERED', target, {
+      reportId: 'report-1',
+    });
+  });
+
+  it('does not notify twice for a repeated Delivery event', async () => {
+    report.findFirst.mockResolvedValue({
+      ...sentReport,
+      deliveryStatus: 'DELIVERED',
+    });
+
+    await handlePostmarkWebhook({ RecordType: 'Delivery', MessageID: 'msg-1' });
+
+    expect(report.update).toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('ignores a Delivery event that arrives after a Bounce', async () => {
+    report.findFirst.mockResolvedValue({
+      ...sentReport,
+      deliveryStatus: 'DELIVERY_FAILED',
+    });
+
+    await expect(
+      handlePostmarkWebhook({ RecordType: 'Delivery', MessageID: 'msg-1' })
+    ).resolves.toMatchObject({ matched: true });
+    expect(report.update).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('marks a bounced report DELIVERY_FAILED with the reason', async () => {
+    await handlePostmarkWebhook({
+      RecordType: 'Bounce',
+      MessageID: 'msg-1',
+      Email: 'owner@example.com',
+      Type: 'HardBounce',
+      Description: 'The server was unable to deliver your message',
+    });
+
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: {
+        deliveryStatus: 'DELIVERY_FAILED',
+        emailDeliveryError:
+          'HardBounce: The server was unable to deliver your message',
+      },
+    });
+    expect(notify).toHaveBeenCalledWith('PDV_REPORT_EMAIL_BOUNCED', target, {
+      reportId: 'report-1',
+      recipient: 'owner@example.com',
+      reason: 'The server was unable to deliver your message',
+    });
+  });
+
+  it('records a spam complaint without changing the status', async () => {
+    await handlePostmarkWebhook({
+      RecordType: 'SpamComplaint',
+      MessageID: 'msg-1',
+      BouncedAt: '2026-01-02T08:00:00Z',
+    });
+
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { emailSpamComplaintAt: new Date('2026-01-02T08:00:00Z') },
+    });
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('only records the first open', async () => {
+    await handlePostmarkWebhook({
+      RecordType: 'Open',
+      MessageID: 'msg-1',
+      ReceivedAt: '2026-01-02T09:00:00Z',
+    });
+    expect(report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { emailOpenedAt: new Date('2026-01-02T09:00:00Z') },
+    });
+
+    report.update.mockClear();
+    report.findFirst.mockResolvedValue({
+      ...sentReport,
+      emailOpenedAt: new Date('2026-01-02T09:00:00Z'),
+    });
+    await handlePostmarkWebhook({ RecordType: 'Open', MessageID: 'msg-1' });
+    expect(report.update).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges events for messages without a report', async () => {
+    report.findFirst.mockResolvedValue(null);
+
+    await expect(
+      handlePostmarkWebhook({ RecordType: 'Delivery', MessageID: 'other' })
+    ).resolves.toEqual({ matched: false, recordType: 'Delivery' });
+    expect(report.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('isAuthorizedPostmarkWebhook', () => {
+  const auth: PostmarkWebhookAuth = {
+    token: 'secret-token',
+    basicAuth: 'postmark:secret',
+    production: true,
+  };
+  const basic = (credentials: string) =>
+    `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+  it('accepts the configured token header', () => {
+    expect(
+      isAuthorizedPostmarkWebhook(
+        { 'x-postmark-webhook-token': 'secret-token' },
+        auth
+      )
+    ).toBe(true);
+  });
+
+  it('accepts the configured basic auth credentials', () => {
+    expect(
+      isAuthorizedPostmarkWebhook(
+        { authorization: basic('postmark:secret') },
+        auth
+      )
+    ).toBe(true);
+  });
+
+  it('rejects wrong or missing credentials', () => {
+    expect(
+      isAuthorizedPostmarkWebhook({ 'x-postmark-webhook-token': 'nope' }, auth)
+    ).toBe(false);
+    expect(
+      isAuthorizedPostmarkWebhook(
+        { authorization: basic('postmark:nope') },
+        auth
+      )
+    ).toBe(false);
+    expect(isAuthorizedPostmarkWebhook({}, auth)).toBe(false);
+  });
+
+  it('accepts unauthenticated webhooks when none are configured in env', () => {
+    expect(isAuthorizedPostmarkWebhook({})).toBe(true);
+  });
+
+  it('only accepts unauthenticated webhooks outside production', () => {
+    const unconfigured = { token: '', basicAuth: '' };
+
+    expect(
+      isAuthorizedPostmarkWebhook({}, { ...unconfigured, production: false })
+    ).toBe(true);
+    expect(
+      isAuthorizedPostmarkWebhook({}, { ...unconfigured, production: true })
+    ).toBe(false);
+  });
+});
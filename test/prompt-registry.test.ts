@@ -0,0 +1,116 @@
+import { db } from '../src/db';
+import { createLogger } from '../src/logger';
+import { PromptSet } from '../src/pdv-report/prompts/registry';
+
+jest.mock('../src/db', () => ({
+  db: {
+    promptVersion: { findMany: jest.fn() },
+    platformADVSetting: { findUnique: jest.fn() },
+  },
+}));
+jest.mock('../src/logger', () => {
+  const log = { info: jest.fn(), warn: jest.fn() };
+  return { createLogger: () => log };
+});
+
+const mockDb = db as any;
+const log = createLogger('pdv-prompts') as unknown as Record<string, jest.Mock>;
+
+const row = (
+  version: number,
+  overrides: { platformId?: string | null; active?: boolean } = {}
+) => ({
+  key: 'prePDV.summary',
+  version,
+  template: `Summary v${version} for {{orgName}}`,
+  systemPrompt: null,
+  maxTokens: null,
+  model: null,
+  webSearchMaxUses: null,
+  platformId: null,
+  active: true,
+  ...overrides,
+});
+
+describe('PromptSet.load', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Sorted newest first, as the query asks for
+    mockDb.promptVersion.findMany.mockResolvedValue([
+      row(4, { active: false }),
+      row(3),
+      row(2, { platformId: 'platform-1' }),
+      row(1),
+    ]);
+    mockDb.platformADVSetting.findUnique.mockResolvedValue(null);
+  });
+
+  it('uses the latest active version without a pin', async () => {
+    const prompts = await PromptSet.load(null);
+
+    expect(prompts.versions['prePDV.summary']).toBe('prePDV.summary@3');
+    expect(mockDb.platformADVSetting.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("prefers the latest active version for the report's platform", async () => {
+    const prompts = await PromptSet.load('platform-1');
+
+    expect(prompts.versions['prePDV.summary']).toBe('prePDV.summary@2');
+  });
+
+  it('uses the pinned version over the latest one', async () => {
+    mockDb.platformADVSetting.findUnique.mockResolvedValue({
+      promptPins: { 'prePDV.summary': 1 },
+    });
+
+    const prompts = await PromptSet.load('platform-1');
+
+    expect(prompts.versions['prePDV.summary']).toBe('prePDV.summary@1');
+    expect(
+      prompts.render('prePDV.summary', { orgName: 'Acme', context: '' }).prompt
+    ).toBe('Summary v1 for Acme');
+  });
+
+  it('uses a pinned version even when it is no longer active', async () => {
+    mockDb.platformADVSetting.findUnique.mockResolvedValue({
+      promptPins: { 'prePDV.summary': 4 },
+    });
+
+    const prompts = await PromptSet.load('platform-1');
+
+    expect(prompts.versions['prePDV.summary']).toBe('prePDV.summary@4');
+  });
+
+  it('uses the built-in prompt when pinned to it', async () => {
+    mockDb.platformADVSetting.findUnique.mockResolvedValue({
+      promptPins: { 'prePDV.summary': 'builtin' },
+    });
+
+    const prompts = await PromptSet.load('platform-1');
+
+    expect(prompts.versions['prePDV.summary']).toMatch(
+      /^prePDV\.summary@builtin-[0-9a-f]{8}$/
+    );
+  });
+
+  it('falls back to the latest version and warns when the pin is missing', async () => {
+    mockDb.platformADVSetting.findUnique.mockResolvedValue({
+      promptPins: { 'prePDV.summary': 9 },
+    });
+
+    const prompts = await PromptSet.load('platform-1');
+
+    expect(prompts.versions['prePDV.summary']).toBe('prePDV.summary@2');
+    expect(log.warn).toHaveBeenCalledWith(
+      'Platform platform-1 is pinned to missing prompt version prePDV.summary@9'
+    );
+  });
+
+  it('uses the built-in prompt for keys without stored versions', async () => {
+    const prompts = await PromptSet.load(null);
+
+    expect(prompts.versions['prePDV.overview']).toMatch(
+      /^prePDV\.overview@builtin-[0-9a-f]{8}$/
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import type { Queue } from 'bullmq';
+import { db } from '../src/db';
+import {
+  approveReportEmail,
+  cancelReportEmail,
+  sendReportEmailNow,
+} from '../src/report-email-actions';
+
+jest.mock('../src/db', () => ({
+  db: {
+    report: { findUnique: jest.fn(), update: jest.fn() },
+    auditLog: { create: jest.fn() },
+  },
+}));
+jest.mock('../src/queue', () => ({
+  reviewJobId: (reportId: string) => `review-${reportId}`,
+}));
+jest.mock('../src/delivery-delay', () => ({
+  resolveEmailDelay: jest.fn(async () => 60000),
+}));
+
+const mockDb = db as any;
+const actor = { userId: 'admin-1' };
+
+describe('report email actions', () => {
+  const report = {
+    id: 'report-1',
+    bullMQJobId: 'email-1',
+    platformId: 'platform-1',
+    deliveryStatus: 'PENDING',
+    organisationWorkflow: { workflowId: 'workflow-1' },
+  };
+  const delayedJob = {
+    id: 'email-1',
+    timestamp: Date.parse('2026-01-01T00:00:00Z'),
+    delay: 3600000,
+    getState: jest.fn(async () => 'delayed'),
+    promote: jest.fn(),
+    remove: jest.fn(),
+  };
+  const emailQueue = { getJob: jest.fn(), add: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.report.findUnique.mockResolvedValue(report);
+    mockDb.auditLog.create.mockResolvedValue({});
+    emailQueue.getJob.mockResolvedValue(delayedJob);
+  });
+
+  it('audits an action before carrying it out', async () => {
+    const order: string[] = [];
+    mockDb.auditLog.create.mockImplementation(async () => order.push('audit'));
+    delayedJob.promote.mockImplementation(async () => order.push('promote'));
+
+    await expect(
+      sendReportEmailNow(emailQueue as unknown as Queue, 'report-1', actor)
+    ).resolves.toMatchObject({ ok: true, jobId: 'email-1' });
+
+    expect(order).toEqual(['audit', 'promote']);
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'REPORT_EMAIL_SEND_NOW',
+        entityId: 'report-1',
+        userId: 'admin-1',
+        workflowId: 'workflow-1',
+        metadata: { jobId: 'email-1' },
+      }),
+    });
+  });
+
+  it('leaves the job alone when the audit row cannot be written', async () => {
+    mockDb.auditLog.create.mockRejectedValue(new Error('DB down'));
+
+    await expect(
+      cancelReportEmail(emailQueue as unknown as Queue, 'report-1', actor)
+    ).rejects.toThrow('DB down');
+
+    expect(delayedJob.remove).not.toHaveBeenCalled();
+    expect(mockDb.report.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects actions on reports without a workflow', async () => {
+    mockDb.report.findUnique.mockResolvedValue({
+      ...report,
+      organisationWorkflow: null,
+    });
+
+    await expect(
+      cancelReportEmail(emailQueue as unknown as Queue, 'report-1', actor)
+    ).resolves.toEqual({
+      ok: false,
+      status: 409,
+      error: 'Report has no workflow to audit the action against',
+    });
+    expect(mockDb.auditLog.create).not.toHaveBeenCalled();
+    expect(delayedJob.remove).not.toHaveBeenCalled();
+  });
+
+  it('approves a held email under the job id it audited', async () => {
+    mockDb.report.findUnique.mockResolvedValue({
+      ...report,
+      bullMQJobId: null,
+      deliveryStatus: 'PENDING_REVIEW',
+    });
+    const reviewJob = {
+      id: 'review-report-1',
+      timestamp: 1700000000000,
+      data: { reportId: 'report-1' },
+      remove: jest.fn(),
+    };
+    const reviewQueue = { getJob: jest.fn(async () => reviewJob) };
+
+    const result = await approveReportEmail(
+      reviewQueue as unknown as Queue,
+      emailQueue as unknown as Queue,
+      'report-1',
+      {},
+      actor
+    );
+
+    const jobId = 'email-review-report-1-1700000000000';
+    expect(result).toMatchObject({ ok: true, jobId });
+    expect(mockDb.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'REPORT_EMAIL_APPROVE',
+        metadata: { jobId },
+      }),
+    });
+    expect(emailQueue.add).toHaveBeenCalledWith('Email', reviewJob.data, {
+      delay: 60000,
+      jobId,
+    });
+    expect(mockDb.report.update).toHaveBeenCalledWith({
+      where: { id: 'report-1' },
+      data: { deliveryStatus: 'PENDING', bullMQJobId: jobId },
+    });
+    expect(reviewJob.remove).toHaveBeenCalled();
+  });
+});
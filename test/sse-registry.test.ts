@@ -0,0 +1,88 @@
+import type { NotificationTokenClaims } from '../src/notifications/auth';
+import { sseConnections } from '../src/notifications/registry';
+
+const claims = (
+  organizationId: string,
+  platformId = 'platform-1'
+): NotificationTokenClaims => ({
+  userId: 'user-1',
+  organizationId,
+  platformId,
+  role: 'USER',
+});
+
+describe('sseConnections', () => {
+  afterEach(async () => {
+    await sseConnections.closeAll(0);
+  });
+
+  it('counts connections per platform and organisation', () => {
+    sseConnections.register(claims('org-1'), jest.fn(), jest.fn());
+    sseConnections.register(claims('org-1'), jest.fn(), jest.fn());
+    sseConnections.register(claims('org-2'), jest.fn(), jest.fn());
+    sseConnections.register(
+      claims('org-3', 'platform-2'),
+      jest.fn(),
+      jest.fn()
+    );
+
+    expect(sseConnections.size).toBe(4);
+    expect(sseConnections.counts()).toEqual({
+      total: 4,
+      byPlatform: [
+        {
+          platformId: 'platform-1',
+          connections: 3,
+          organizations: [
+            { organizationId: 'org-1', connections: 2 },
+            { organizationId: 'org-2', connections: 1 },
+          ],
+        },
+        {
+          platformId: 'platform-2',
+          connections: 1,
+          organizations: [{ organizationId: 'org-3', connections: 1 }],
+        },
+      ],
+    });
+  });
+
+  it('detaches a connection exactly once', () => {
+    const detach = jest.fn();
+    const id = sseConnections.register(claims('org-1'), detach, jest.fn());
+
+    sseConnections.unregister(id);
+    sseConnections.unregister(id);
+
+    expect(detach).toHaveBeenCalledTimes(1);
+    expect(sseConnections.counts()).toEqual({ total: 0, byPlatform: [] });
+  });
+
+  it('unregisters a connection whose detach throws', () => {
+    const id = sseConnections.register(
+      claims('org-1'),
+      () => {
+        throw new Error('already closed');
+      },
+      jest.fn()
+    );
+
+    expect(() => sseConnections.unregister(id)).not.toThrow();
+    expect(sseConnections.size).toBe(0);
+  });
+
+  it('ends and detaches every stream on closeAll, even if one fails', async () => {
+    const detach = jest.fn();
+    const end = jest.fn(async () => undefined);
+    sseConnections.register(claims('org-1'), detach, end);
+    sseConnections.register(claims('org-2'), detach, async () => {
+      throw new Error('socket gone');
+    });
+
+    await expect(sseConnections.closeAll(5000)).resolves.toBe(2);
+
+    expect(end).toHaveBeenCalledWith(5000);
+    expect(detach).toHaveBeenCalledTimes(2);
+    expect(sseConnections.size).toBe(0);
+  });
+});
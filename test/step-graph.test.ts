@@ -0,0 +1,153 @@
+import { GraphStep, runStepGraph } from '../src/pdv-report/step-graph';
+
+type Key = 'a' | 'b' | 'c' | 'd';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('runStepGraph', () => {
+  it('passes finished outputs to dependent steps', async () => {
+    const seen: Partial<Record<Key, string>>[] = [];
+    const step = (
+      value: string,
+      dependsOn: Key[] = []
+    ): GraphStep<Key, string> => ({
+      dependsOn,
+      run: async (outputs) => {
+        seen.push(outputs);
+        return value;
+      },
+    });
+
+    const outputs = await runStepGraph<Key, string>(
+      {
+        a: step('A'),
+        b: step('B', ['a']),
+        c: step('C', ['a']),
+        d: step('D', ['b', 'c']),
+      },
+      4
+    );
+
+    expect(outputs).toEqual({ a: 'A', b: 'B', c: 'C', d: 'D' });
+    expect(seen[seen.length - 1]).toEqual({ a: 'A', b: 'B', c: 'C' });
+  });
+
+  it('keeps at most `concurrency` steps in flight, in declared order', async () => {
+    const pending = {
+      a: deferred<string>(),
+      b: deferred<string>(),
+      c: deferred<string>(),
+    };
+    const started: string[] = [];
+    const step = (
+      key: keyof typeof pending
+    ): GraphStep<keyof typeof pending, string> => ({
+      dependsOn: [],
+      run: () => {
+        started.push(key);
+        return pending[key].promise;
+      },
+    });
+
+    const result = runStepGraph<'a' | 'b' | 'c', string>(
+      { a: step('a'), b: step('b'), c: step('c') },
+      2
+    );
+
+    await flush();
+    expect(started).toEqual(['a', 'b']);
+
+    pending.b.resolve('B');
+    await flush();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    pending.a.resolve('A');
+    pending.c.resolve('C');
+    await expect(result).resolves.toEqual({ a: 'A', b: 'B', c: 'C' });
+  });
+
+  it('runs one step at a time with a concurrency below one', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const step: GraphStep<'a' | 'b', number> = {
+      dependsOn: [],
+      run: async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await flush();
+        inFlight -= 1;
+        return 1;
+      },
+    };
+
+    await runStepGraph({ a: step, b: step }, 0);
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('rejects a dependency cycle without running the cycle', async () => {
+    const run = jest.fn().mockResolvedValue('x');
+
+    await expect(
+      runStepGraph<'a' | 'b' | 'c', string>(
+        {
+          a: { dependsOn: [], run },
+          b: { dependsOn: ['c'], run },
+          c: { dependsOn: ['b'], run },
+        },
+        2
+      )
+    ).rejects.toThrow('Step graph has a dependency cycle');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a dependency on an unknown step before running anything', async () => {
+    const run = jest.fn().mockResolvedValue('x');
+
+    await expect(
+      runStepGraph<'a', string>(
+        { a: { dependsOn: ['missing' as 'a'], run } },
+        1
+      )
+    ).rejects.toThrow('Step a depends on unknown step missing');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('lets running steps finish, starts no more, and throws the first error', async () => {
+    const slow = deferred<string>();
+    const later = jest.fn().mockResolvedValue('C');
+    const dependent = jest.fn().mockResolvedValue('D');
+    let settled = false;
+
+    const result = runStepGraph<Key, string>(
+      {
+        a: { dependsOn: [], run: () => Promise.reject(new Error('a failed')) },
+        b: { dependsOn: [], run: () => slow.promise },
+        c: { dependsOn: [], run: later },
+        d: { dependsOn: ['a'], run: dependent },
+      },
+      2
+    ).finally(() => {
+      settled = true;
+    });
+    result.catch(() => undefined);
+
+    await flush();
+    expect(settled).toBe(false);
+
+    slow.reject(new Error('b failed'));
+    await expect(result).rejects.toThrow('a failed');
+    expect(later).not.toHaveBeenCalled();
+    expect(dependent).not.toHaveBeenCalled();
+  });
+});